@@ -0,0 +1,48 @@
+// This file is generated by `npm run bindings` from src/server/actions.ts - do not edit it by hand.
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+interface ActionArgs {
+  setPlayer: [string];
+  register: [string, string];
+  login: [string, string];
+  resumeSession: [string];
+  logout: [];
+  verifyPlayer: [];
+  exportGame: [];
+  createGame: [number, { width: number, height: number }, { seed?: number, gameName?: string, disconnectPolicy?: "autoFinish" | "wait" | "ai", autosaveInterval?: number, autosaveKeep?: number, turnMode?: "simultaneous" | "sequential", turnTimeLimit?: number, turnTimeBonus?: number, aiFillsEmptySlots?: boolean, ruleset?: string, victoryConditions?: ("elimination" | "domination" | "science" | "score")[], scienceVictoryKnowledges?: string[], turnLimit?: number }?];
+  joinGame: [number, string?];
+  spectateGame: [number, (number | null)?, string?];
+  setSpectatorView: [number | null];
+  requestMapSync: [];
+  requestChunks: [{ x: number, y: number, width: number, height: number }];
+  getGames: [];
+  openReplay: [number];
+  stepReplay: [];
+  closeReplay: [];
+  kickPlayer: [string];
+  transferOwnership: [string];
+  addHotseatPlayer: [string];
+  switchHotseatPlayer: [string];
+  setPlayerCount: [number];
+  setGamePassword: [string | null];
+  deleteGame: [];
+  listSaves: [];
+  loadSave: [number];
+  setLeader: [number];
+  ready: [boolean];
+  endTurn: [];
+  turnFinished: [boolean];
+  sendChat: ["lobby" | "all" | "private", string, number?];
+  attack: [Coords, Coords];
+  moveUnit: [Coords, Coords[], boolean];
+  undoMove: [];
+  settleCity: [Coords, string];
+  getImprovementCatalog: [Coords];
+  buildImprovement: [Coords, string];
+  getTraders: [];
+  getStats: [];
+  getUnitCatalog: [Coords];
+  trainUnit: [Coords, string];
+  getKnowledgeCatalog: [Coords];
+  researchKnowledge: [Coords, string];
+}
@@ -82,6 +82,15 @@ rootElement.onmouseup = function() {
 	oldY = camera.y;
 }
 
+window.onkeydown = (evt: KeyboardEvent) => {
+  // Typing in a text field has its own undo
+  if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement) return;
+  if ((evt.ctrlKey || evt.metaKey) && evt.key.toLowerCase() === 'z' && ui.view === 'inGame') {
+    evt.preventDefault();
+    world.sendAction('undoMove');
+  }
+};
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const mod = (a, b) => {
   if (a >= 0) {
@@ -232,6 +232,13 @@ class Camera {
     const xStart = (Math.round((((camX * zoom) + (X_CLIP_OFFSET * width * zoom)) + scx1) / (X_TILE_SPACING * zoom)) - 1);
     const xEnd = (Math.round((((camX * zoom) + (X_CLIP_OFFSET * width * zoom)) + scx2) / (X_TILE_SPACING * zoom)) + 1);
 
+    world.requestChunks({
+      x: xStart,
+      y: Math.max(yStart, 0),
+      width: xEnd - xStart,
+      height: Math.min(yEnd, height) - Math.max(yStart, 0),
+    });
+
     const selectedX = Math.round((wmX / X_TILE_SPACING) + selectorXOffset);
     const selectedY = Math.round(((wmY + height) / TILE_HEIGHT) + (selectorYOffset + (mod(selectedX, 2) / -2)));
 
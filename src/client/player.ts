@@ -53,6 +53,39 @@ const iconPathTable: { [icon: string]: string } = {
 };
 const MISSING_ICON_PATH = 'assets/missing.png';
 
+interface CivStats {
+  turn: number;
+  score: number;
+  cities: number;
+  units: number;
+  territory: number;
+  yields: { food: number, production: number, science: number };
+  knowledges: number;
+  unitsKilled: number;
+  unitsLost: number;
+  traders: number;
+}
+
+type StatsHistory = { [civID: string]: CivStats[] };
+
+const statsGraphTable: { [stat: string]: (stats: CivStats) => number } = {
+  'score': (stats: CivStats) => stats.score,
+  'cities': (stats: CivStats) => stats.cities,
+  'units': (stats: CivStats) => stats.units,
+  'territory': (stats: CivStats) => stats.territory,
+  'food': (stats: CivStats) => stats.yields.food,
+  'production': (stats: CivStats) => stats.yields.production,
+  'science': (stats: CivStats) => stats.yields.science,
+  'knowledges': (stats: CivStats) => stats.knowledges,
+  'unitsKilled': (stats: CivStats) => stats.unitsKilled,
+  'unitsLost': (stats: CivStats) => stats.unitsLost,
+  'traders': (stats: CivStats) => stats.traders,
+};
+
+const STATS_GRAPH_WIDTH = 480;
+const STATS_GRAPH_HEIGHT = 240;
+const STATS_GRAPH_PADDING = 32;
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 class UI {
 
@@ -66,6 +99,7 @@ class UI {
   buttons: { [key: string]: Button };
   textInputs: { [key: string]: TextInput };
   textAlerts: { [key: string]: TextAlert };
+  private turnTimerInterval: number | null;
 
   public view: string;
 
@@ -83,22 +117,42 @@ class UI {
       unitInfoMenu: this.createElement('div', {className: 'unitInfoMenu'}),
       tileInfoMenu: this.createElement('div', {className: 'tileInfoMenu'}),
       sidebarMenu: this.createElement('div', {className: 'sidebarMenu'}),
+      chatPanel: this.createElement('div', {className: 'chatPanel'}),
+      chatLog: this.createElement('div', {className: 'chatLog'}),
+      turnTimer: this.createElement('div', {className: 'turnTimer'}),
+      hotseatPanel: this.createElement('div', {className: 'hotseatPanel'}),
+      hotseatScreen: this.createElement('div', {className: 'hotseatScreen'}),
+      replayControls: this.createElement('div', {className: 'replayControls'}),
+      statsScreen: this.createElement('div', {className: 'statsScreen'}),
     };
     this.leaderPool = [];
     this.takenLeaders = [];
     this.players = {};
     this.civs = {};
     this.turnActive = false;
+    this.turnTimerInterval = null;
 
     this.buttons = {
       mainBtn: new Button(this.createElement('button', {className: 'mainActionBtn'}), {
         text: 'MainBtn',
       }),
+      undoBtn: new Button(this.createElement('button', {className: 'undoBtn'}), {
+        text: translate('buttons.undo'),
+        action: ['undoMove', []],
+      }),
     };
 
     this.textInputs = {
       loginMenu: new TextInput({
         query: translate('menu.login.query'),
+        abortText: translate('buttons.register'),
+        fields: [
+          [translate('menu.login.fields.username'), undefined],
+          [translate('menu.login.fields.password'), undefined, 'password'],
+        ]
+      }),
+      registerMenu: new TextInput({
+        query: translate('menu.register.query'),
         fields: [
           [translate('menu.login.fields.username'), undefined],
           [translate('menu.login.fields.password'), undefined, 'password'],
@@ -118,6 +172,13 @@ class UI {
           [translate('menu.game.new.fields.width'), undefined, 'number'],
           [translate('menu.game.new.fields.height'), undefined, 'number'],
           [translate('menu.game.new.fields.seed'), translate('menu.game.new.hints.seed'), 'number'],
+          [translate('menu.game.new.fields.ruleset'), translate('menu.game.new.hints.ruleset')],
+        ]
+      }),
+      gamePassword: new TextInput({
+        query: translate('menu.game.password.query'),
+        fields: [
+          [translate('menu.login.fields.password'), undefined, 'password'],
         ]
       }),
       reconnectMenu: new TextInput({
@@ -136,6 +197,12 @@ class UI {
         message: translate('error.fatal'),
         submitText: translate('buttons.reload'),
       }),
+      gameOverAlert: new TextAlert({
+        message: translate('gameOver.draw'),
+      }),
+      eliminationAlert: new TextAlert({
+        message: translate('eliminated.self'),
+      }),
     };
   }
 
@@ -161,6 +228,11 @@ class UI {
     this.hideCivPicker();
     this.hideGameList();
     this.hideMainMenu();
+    this.hideChatPanel();
+    this.hideTurnTimer();
+    this.hideHotseatScreen();
+    this.hideReplayControls();
+    this.hideStatsScreen();
   }
 
   createElement(type: string, options?: { className?: string, attrs?: ElementOptions, children?: HTMLElement[] }): HTMLElement {
@@ -269,6 +341,30 @@ class UI {
     }
   }
 
+  /**
+   * Shows a countdown next to the main button.
+   * @param remaining ms until the turn is finished automatically, or null if it has no time limit
+   */
+  setTurnTimer(remaining: number | null): void {
+    this.hideTurnTimer();
+    if (remaining === null) return;
+
+    const deadline = Date.now() + remaining;
+    const update = () => {
+      const seconds = Math.max(Math.ceil((deadline - Date.now()) / 1000), 0);
+      this.elements.turnTimer.innerText = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    };
+    update();
+    this.turnTimerInterval = window.setInterval(update, 250);
+    this.buttons.mainBtn.element.after(this.elements.turnTimer);
+  }
+
+  hideTurnTimer(): void {
+    if (this.turnTimerInterval !== null) window.clearInterval(this.turnTimerInterval);
+    this.turnTimerInterval = null;
+    this.elements.turnTimer.remove();
+  }
+
   showGameUI(world: World): void {
     for (const buttonID in this.buttons) {
       const button = this.buttons[buttonID];
@@ -278,6 +374,98 @@ class UI {
     }
   }
 
+  showChatPanel(callback: (channel: ChatMessage['channel'], text: string, recipientCivID?: number) => void, self: Player): void {
+    this.elements.chatPanel.innerHTML = '';
+
+    const chatBody = this.createElement('div', {className: 'chatBody'});
+
+    const toggleBtn = this.createElement('button', {className: 'chatToggle'});
+    toggleBtn.innerText = translate('menu.chat.title');
+    toggleBtn.onclick = () => {
+      chatBody.hidden = !chatBody.hidden;
+    };
+    this.elements.chatPanel.appendChild(toggleBtn);
+
+    chatBody.appendChild(this.elements.chatLog);
+
+    // Channel options are `lobby` before the game starts, `all` once it has, or `civ:<civID>` for a private channel
+    const channelSelect = this.createElement('select', {className: 'chatChannel'}) as HTMLSelectElement;
+    // The known civs change as players pick leaders, so the options are rebuilt whenever the list is opened
+    const updateChannels = () => {
+      const selected = channelSelect.value;
+      channelSelect.innerHTML = '';
+      const publicChannel = this.view === 'inGame' ? 'all' : 'lobby';
+      const channels: [string, string][] = [
+        [publicChannel, translate(`menu.chat.channels.${publicChannel}`)],
+      ];
+      for (const civID in this.civs) {
+        if (Number(civID) !== self.civID) {
+          channels.push([`civ:${civID}`, `${translate('menu.chat.channels.private')} ${this.civs[civID].name}`]);
+        }
+      }
+      for (const [value, text] of channels) {
+        const option = this.createElement('option', {attrs: {innerText: text}}) as HTMLOptionElement;
+        option.value = value;
+        channelSelect.appendChild(option);
+      }
+      channelSelect.value = channels.some(([value]) => value === selected) ? selected : publicChannel;
+    };
+    channelSelect.onfocus = updateChannels;
+    updateChannels();
+    chatBody.appendChild(channelSelect);
+
+    const textInput = this.createElement('input', {className: 'chatInput'}) as HTMLInputElement;
+    const sendMessage = () => {
+      if (!textInput.value.trim()) return;
+      // The game may have started since the list was last opened
+      updateChannels();
+      const [channel, civID] = channelSelect.value.split(':');
+      if (civID !== undefined) {
+        callback('private', textInput.value, Number(civID));
+      } else {
+        callback(channel as ChatMessage['channel'], textInput.value);
+      }
+      textInput.value = '';
+    };
+    textInput.onkeydown = (event: KeyboardEvent) => {
+      if (event.key === 'Enter') sendMessage();
+    };
+    chatBody.appendChild(textInput);
+
+    const sendBtn = this.createElement('button', {attrs: {innerText: translate('buttons.send'), onclick: sendMessage}});
+    chatBody.appendChild(sendBtn);
+
+    this.elements.chatPanel.appendChild(chatBody);
+    this.root.appendChild(this.elements.chatPanel);
+  }
+
+  hideChatPanel(): void {
+    this.elements.chatPanel.remove();
+  }
+
+  setChatHistory(messages: ChatMessage[], self: Player): void {
+    this.elements.chatLog.innerHTML = '';
+    for (const message of messages) {
+      this.addChatMessage(message, self);
+    }
+  }
+
+  addChatMessage(message: ChatMessage, self: Player): void {
+    let prefix = '';
+    if (message.channel === 'private') {
+      const fromSelf = message.senderCivID === self.civID;
+      const otherCivID = fromSelf ? message.recipientCivID : message.senderCivID;
+      prefix = `[${fromSelf ? translate('menu.chat.to') : translate('menu.chat.from')} ${this.civs[otherCivID as number]?.name ?? otherCivID}] `;
+    } else if (message.channel === 'lobby') {
+      prefix = `[${translate('menu.chat.channels.lobby')}] `;
+    }
+
+    const messageElement = this.createElement('p', {className: 'chatMessage'});
+    messageElement.innerText = `${prefix}${message.sender}: ${message.text}`;
+    this.elements.chatLog.appendChild(messageElement);
+    this.elements.chatLog.scrollTop = this.elements.chatLog.scrollHeight;
+  }
+
   showCivPicker(callback: (leaderID: number) => void, self: Player): void {
     this.elements.civPicker.innerHTML = '';
     const selectedLeaderSlot = this.createElement('div', {className: 'selectedLeader'});
@@ -309,9 +497,193 @@ class UI {
 
   hideCivPicker(): void {
     this.elements.civPicker.remove();
+    this.elements.hotseatPanel.remove();
     this.elements.centerModal.remove();
   }
 
+  /**
+   * Shows the players sharing this connection in hotseat mode, so that each can pick a leader in turn.
+   * @param account the name of the account that owns the connection
+   */
+  showHotseatPanel(callbacks: {
+    add: (name: string) => void,
+    switchTo: (name: string) => void,
+  }, account: string, self: Player): void {
+    this.elements.hotseatPanel.innerHTML = '';
+
+    const localNames = Object.keys(this.players).filter(name => name === account || this.players[name].hotseatHost === account);
+    for (const name of localNames) {
+      const switchBtn = this.createElement('button', {className: 'hotseatPlayer'});
+      switchBtn.innerText = name;
+      if (this.players[name].civID === self.civID) switchBtn.classList.add('active');
+      switchBtn.onclick = () => {
+        callbacks.switchTo(name);
+      };
+      this.elements.hotseatPanel.appendChild(switchBtn);
+    }
+
+    const addBtn = this.createElement('button', {className: 'hotseatAdd'});
+    addBtn.innerText = translate('menu.hotseat.add');
+    addBtn.onclick = () => {
+      const name = prompt(`${translate('menu.hotseat.prompt')}:`);
+      if (name) callbacks.add(name);
+    };
+    this.elements.hotseatPanel.appendChild(addBtn);
+
+    this.elements.centerModal.appendChild(this.elements.hotseatPanel);
+  }
+
+  /**
+   * Covers the screen between two hotseat players' turns, so that the next player does not see the previous one's map.
+   */
+  showHotseatScreen(name: string): void {
+    this.elements.hotseatScreen.innerHTML = '';
+
+    const message = this.createElement('p');
+    message.innerText = `${translate('menu.hotseat.pass')} ${name}`;
+    this.elements.hotseatScreen.appendChild(message);
+
+    const continueBtn = this.createElement('button');
+    continueBtn.innerText = translate('buttons.continue');
+    continueBtn.onclick = () => {
+      this.hideHotseatScreen();
+    };
+    this.elements.hotseatScreen.appendChild(continueBtn);
+
+    this.elements.hotseatScreen.style.position = 'fixed';
+    this.elements.hotseatScreen.style.inset = '0';
+    this.elements.hotseatScreen.style.background = 'black';
+    this.root.appendChild(this.elements.hotseatScreen);
+  }
+
+  hideHotseatScreen(): void {
+    this.elements.hotseatScreen.remove();
+  }
+
+  showReplayControls(turn: number, isFinished: boolean, callbacks: {
+    step: () => void,
+    close: () => void,
+  }): void {
+    this.elements.replayControls.innerHTML = '';
+
+    const turnLabel = this.createElement('span');
+    turnLabel.innerText = `${translate('menu.replay.turn')} ${turn}${isFinished ? ` (${translate('menu.replay.end')})` : ''}`;
+    this.elements.replayControls.appendChild(turnLabel);
+
+    const stepBtn = this.createElement('button') as HTMLButtonElement;
+    stepBtn.innerText = translate('buttons.replay.next');
+    stepBtn.disabled = isFinished;
+    stepBtn.onclick = () => callbacks.step();
+    this.elements.replayControls.appendChild(stepBtn);
+
+    const closeBtn = this.createElement('button');
+    closeBtn.innerText = translate('buttons.replay.close');
+    closeBtn.onclick = () => callbacks.close();
+    this.elements.replayControls.appendChild(closeBtn);
+
+    this.elements.replayControls.style.position = 'fixed';
+    this.elements.replayControls.style.top = '0';
+    this.elements.replayControls.style.left = '50%';
+    this.elements.replayControls.style.transform = 'translateX(-50%)';
+    this.root.appendChild(this.elements.replayControls);
+  }
+
+  hideReplayControls(): void {
+    this.elements.replayControls.remove();
+  }
+
+  createSVGLabel(text: string, attrs: { [attr: string]: string | number }): SVGElement {
+    const label = this.createSVGElement('text', { attrs });
+    label.textContent = text;
+    return label;
+  }
+
+  /**
+   * Draws one line per civ, with turns along the x axis and values along the y axis.
+   */
+  createLineGraph(lines: { color: string, points: [number, number][] }[]): SVGElement {
+    const allPoints = lines.reduce((acc: [number, number][], { points }) => acc.concat(points), []);
+    const maxTurn = Math.max(1, ...allPoints.map(([turn]) => turn));
+    const maxValue = Math.max(1, ...allPoints.map(([, value]) => value));
+    const toX = (turn: number) => STATS_GRAPH_PADDING + (turn / maxTurn) * (STATS_GRAPH_WIDTH - 2 * STATS_GRAPH_PADDING);
+    const toY = (value: number) => STATS_GRAPH_HEIGHT - STATS_GRAPH_PADDING - (value / maxValue) * (STATS_GRAPH_HEIGHT - 2 * STATS_GRAPH_PADDING);
+
+    const axisStyle = { stroke: '#ccc', 'stroke-width': 1 };
+    const labelStyle = { fill: '#ccc', 'font-size': 12 };
+    return this.createSVGElement('svg', { className: 'lineGraph', attrs: { width: STATS_GRAPH_WIDTH, height: STATS_GRAPH_HEIGHT }, children: [
+      this.createSVGElement('line', { attrs: { ...axisStyle, x1: toX(0), y1: toY(0), x2: toX(maxTurn), y2: toY(0) } }),
+      this.createSVGElement('line', { attrs: { ...axisStyle, x1: toX(0), y1: toY(0), x2: toX(0), y2: toY(maxValue) } }),
+      this.createSVGLabel('0', { ...labelStyle, x: toX(0), y: toY(0) + 16, 'text-anchor': 'middle' }),
+      this.createSVGLabel(`${translate('menu.stats.turn')} ${maxTurn}`, { ...labelStyle, x: toX(maxTurn), y: toY(0) + 16, 'text-anchor': 'middle' }),
+      this.createSVGLabel(String(maxValue), { ...labelStyle, x: toX(0) - 4, y: toY(maxValue) + 4, 'text-anchor': 'end' }),
+      ...lines.map(({ color, points }) => this.createSVGElement('polyline', { attrs: {
+        fill: 'none',
+        stroke: color,
+        'stroke-width': 2,
+        points: points.map(([turn, value]) => `${toX(turn)},${toY(value)}`).join(' '),
+      }})),
+    ]});
+  }
+
+  /**
+   * Shows how each civ did over the game, one stat at a time.
+   */
+  showStatsScreen(history: StatsHistory, civs: { [civID: string]: Civ }, callback: () => void): void {
+    this.elements.statsScreen.innerHTML = '';
+
+    const title = this.createElement('h2');
+    title.innerText = translate('menu.stats.title');
+    this.elements.statsScreen.appendChild(title);
+
+    const graphContainer = this.createElement('div');
+    const showStat = (stat: string) => {
+      graphContainer.innerHTML = '';
+      graphContainer.appendChild(this.createLineGraph(Object.keys(history).map(civID => ({
+        color: civs[civID]?.color ?? '#fff',
+        points: history[civID].map((stats): [number, number] => [stats.turn, statsGraphTable[stat](stats)]),
+      }))));
+    };
+
+    const statPicker = this.createElement('div');
+    for (const stat in statsGraphTable) {
+      const statBtn = this.createElement('button');
+      statBtn.innerText = translate(`menu.stats.${stat}`);
+      statBtn.onclick = () => showStat(stat);
+      statPicker.appendChild(statBtn);
+    }
+    this.elements.statsScreen.appendChild(statPicker);
+    this.elements.statsScreen.appendChild(graphContainer);
+
+    const legend = this.createElement('div');
+    for (const civID in history) {
+      const civItem = this.createElement('span');
+      civItem.innerText = civs[civID]?.leader?.name ?? civID;
+      civItem.style.color = civs[civID]?.color ?? '#fff';
+      civItem.style.marginRight = '1em';
+      legend.appendChild(civItem);
+    }
+    this.elements.statsScreen.appendChild(legend);
+
+    const closeBtn = this.createElement('button');
+    closeBtn.innerText = translate('buttons.close');
+    closeBtn.onclick = () => callback();
+    this.elements.statsScreen.appendChild(closeBtn);
+
+    showStat('score');
+
+    this.elements.statsScreen.style.position = 'fixed';
+    this.elements.statsScreen.style.top = '50%';
+    this.elements.statsScreen.style.left = '50%';
+    this.elements.statsScreen.style.transform = 'translate(-50%, -50%)';
+    this.elements.statsScreen.style.background = 'rgba(0, 0, 0, 0.85)';
+    this.elements.statsScreen.style.padding = '1em';
+    this.root.appendChild(this.elements.statsScreen);
+  }
+
+  hideStatsScreen(): void {
+    this.elements.statsScreen.remove();
+  }
+
   showReadyBtn(callback: (isReady: boolean) => void): void {
     let btnState = false;
     this.elements.readyBtn.innerText = translate('buttons.ready');
@@ -376,7 +748,9 @@ class UI {
   }
 
   showGameList(gameList: { [key: string]: GameMetadata }, callbacks: {
-    joinGame: (gameID: string) => void,
+    joinGame: (gameID: string) => Promise<void>,
+    spectateGame: (gameID: string) => Promise<void>,
+    watchReplay: (gameID: string) => Promise<void>,
     return: () => void,
   }): void {
     this.elements.gameList.innerHTML = '';
@@ -391,11 +765,21 @@ class UI {
     this.elements.gameList.appendChild(returnBtn);
 
     for (const gameID in gameList) {
-      const { gameName, playersConnected, playerCount } = gameList[gameID];
+      const { gameName, playersConnected, playerCount, spectatorCount, hasPassword } = gameList[gameID];
       const gameBtn = this.createElement('button');
-      gameBtn.innerText = `${gameName} - ${playersConnected} / ${playerCount} ${translate('menu.game.list.players')}`;
+      gameBtn.innerText = `${hasPassword ? `[${translate('menu.game.list.locked')}] ` : ''}${gameName} - ${playersConnected} / ${playerCount} ${translate('menu.game.list.players')}, ${spectatorCount} ${translate('menu.game.list.spectators')}`;
       gameBtn.onclick = () => callbacks.joinGame(gameID);
       this.elements.gameList.appendChild(gameBtn);
+
+      const spectateBtn = this.createElement('button');
+      spectateBtn.innerText = translate('buttons.spectate');
+      spectateBtn.onclick = () => callbacks.spectateGame(gameID);
+      this.elements.gameList.appendChild(spectateBtn);
+
+      const replayBtn = this.createElement('button');
+      replayBtn.innerText = translate('buttons.replay.watch');
+      replayBtn.onclick = () => callbacks.watchReplay(gameID);
+      this.elements.gameList.appendChild(replayBtn);
     }
 
     this.elements.centerModal.appendChild(this.elements.gameList);
@@ -410,11 +794,13 @@ class UI {
   showUnitActionsMenu(world: World, pos: Coords, unit: Unit): void {
     for (const action of unitActionsTable[unit.type]) {
       if (action === 'build') {
-        world.sendActions([['getImprovementCatalog', [pos]]]);
+        // The replies arrive asynchronously, so they are rendered into a container that is discarded with the menu.
+        const buildActions = this.createElement('div');
+        this.elements.unitActionsMenu.appendChild(buildActions);
 
-        world.on.update.improvementCatalog = (catalogPos: Coords, catalog: { type: string, cost: Yield }[]) => {
-          if (!(pos.x === catalogPos.x && pos.y === catalogPos.y)) return;
-          for (const item of catalog) {
+        world.request('getImprovementCatalog', [pos]).then((reply) => {
+          const [, catalog] = (getEventArgs(reply.update, 'improvementCatalog') ?? []) as [Coords, { type: string, cost: Yield }[] | null];
+          for (const item of catalog ?? []) {
             const actionBtn = new Button(
               this.createElement('button'),
               {
@@ -425,10 +811,10 @@ class UI {
             actionBtn.bindCallback(() => {
               world.sendActions([unitActionsFnTable[action](pos, item.type)]);
             });
-      
-            this.elements.unitActionsMenu.appendChild(actionBtn.element);
+
+            buildActions.appendChild(actionBtn.element);
           }
-        };
+        }).catch((err) => console.error(err));
 
         continue;
       }
@@ -582,42 +968,43 @@ class UI {
       this.elements.sidebarMenu.appendChild(errandInfo);
     }
 
-    let tileUnitCatalog: HTMLElement;
-    let tileKnowledgeCatalog: HTMLElement;
-    
-    world.on.update.unitCatalog = (catalogPos: Coords, catalog: { type: string, cost: Yield }[]) => {
-      if (!(pos.x === catalogPos.x && pos.y === catalogPos.y)) return;
-      if (tileUnitCatalog) tileKnowledgeCatalog.remove();
-      tileUnitCatalog = this.createElement('div', {className: 'catalogDiv', children: [
-        this.createElement('h3', {className: 'sidebarInfoHeading', attrs: { innerText: translate('improvement.info.unitCatalog') }}),
-        this.createElement('div', {className: 'sidebarInfoTable', children: catalog && catalog.map(unit => (
-          this.createElement('div', { className: 'sidebarInfoTableRow', children: [
-            this.createElement('button', { className: 'errandButton', attrs: { innerText: translate(`unit.${unit.type}`), onclick: () => {
-              world.sendActions([[ 'trainUnit', [pos, unit.type] ]])
-            }}}),
-            this.createElement('span', { className: 'sidebarInfoSpan', children: [ this.createYieldDisplay(unit.cost) ] }),
-          ] })
-        ))}),
-      ]});
-      this.elements.sidebarMenu.appendChild(tileUnitCatalog);
-    };
+    if (tile.owner?.civID === world.player.civID) {
+      if (canTrainUnits[tile.improvement.type]) {
+        const tileUnitCatalog = this.createElement('div', {className: 'catalogDiv'});
+        this.elements.sidebarMenu.appendChild(tileUnitCatalog);
+
+        world.request('getUnitCatalog', [pos]).then((reply) => {
+          const [, catalog] = (getEventArgs(reply.update, 'unitCatalog') ?? []) as [Coords, { type: string, cost: Yield }[] | null];
+          tileUnitCatalog.appendChild(this.createElement('h3', {className: 'sidebarInfoHeading', attrs: { innerText: translate('improvement.info.unitCatalog') }}));
+          tileUnitCatalog.appendChild(this.createElement('div', {className: 'sidebarInfoTable', children: (catalog ?? []).map(unit => (
+            this.createElement('div', { className: 'sidebarInfoTableRow', children: [
+              this.createElement('button', { className: 'errandButton', attrs: { innerText: translate(`unit.${unit.type}`), onclick: () => {
+                world.sendActions([[ 'trainUnit', [pos, unit.type] ]])
+              }}}),
+              this.createElement('span', { className: 'sidebarInfoSpan', children: [ this.createYieldDisplay(unit.cost) ] }),
+            ] })
+          ))}));
+        }).catch((err) => console.error(err));
+      }
 
-    world.on.update.knowledgeCatalog = (catalogPos: Coords, catalog: { name: string, cost: Yield, prerequisites: string[] }[]) => {
-      if (!(pos.x === catalogPos.x && pos.y === catalogPos.y)) return;
-      if (tileKnowledgeCatalog) tileKnowledgeCatalog.remove();
-      tileKnowledgeCatalog = this.createElement('div', {className: 'catalogDiv', children: [
-        this.createElement('h3', {className: 'sidebarInfoHeading', attrs: { innerText: translate('improvement.info.knowledgeCatalog') }}),
-        this.createElement('div', {className: 'sidebarInfoTable', children: catalog.map(knowledge => (
-          this.createElement('div', { className: 'sidebarInfoTableRow', children: [
-            this.createElement('button', { className: 'errandButton', attrs: { innerText: translate(`knowledge.${knowledge.name}`), onclick: () => {
-              world.sendActions([[ 'researchKnowledge', [pos, knowledge.name] ]])
-            }}}),
-            this.createElement('span', { className: 'sidebarInfoSpan', children: [ this.createYieldDisplay(knowledge.cost) ] }),
-          ] })
-        ))}),
-      ]});
-      this.elements.sidebarMenu.appendChild(tileKnowledgeCatalog);
-    };
+      if (canResearch[tile.improvement.type]) {
+        const tileKnowledgeCatalog = this.createElement('div', {className: 'catalogDiv'});
+        this.elements.sidebarMenu.appendChild(tileKnowledgeCatalog);
+
+        world.request('getKnowledgeCatalog', [pos]).then((reply) => {
+          const [, catalog] = (getEventArgs(reply.update, 'knowledgeCatalog') ?? []) as [Coords, { name: string, cost: Yield, prerequisites: string[] }[] | null];
+          tileKnowledgeCatalog.appendChild(this.createElement('h3', {className: 'sidebarInfoHeading', attrs: { innerText: translate('improvement.info.knowledgeCatalog') }}));
+          tileKnowledgeCatalog.appendChild(this.createElement('div', {className: 'sidebarInfoTable', children: (catalog ?? []).map(knowledge => (
+            this.createElement('div', { className: 'sidebarInfoTableRow', children: [
+              this.createElement('button', { className: 'errandButton', attrs: { innerText: translate(`knowledge.${knowledge.name}`), onclick: () => {
+                world.sendActions([[ 'researchKnowledge', [pos, knowledge.name] ]])
+              }}}),
+              this.createElement('span', { className: 'sidebarInfoSpan', children: [ this.createYieldDisplay(knowledge.cost) ] }),
+            ] })
+          ))}));
+        }).catch((err) => console.error(err));
+      }
+    }
 
     this.root.appendChild(this.elements.sidebarMenu);
   }
@@ -625,8 +1012,6 @@ class UI {
   hideSidebarMenu(): void {
     this.elements.sidebarMenu.remove();
     this.elements.sidebarMenu.innerHTML = '';
-    delete world.on.update.unitCatalog;
-    delete world.on.update.knowledgeCatalog;
   }
 }
 
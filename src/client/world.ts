@@ -6,6 +6,8 @@ interface Civ {
 interface Player {
   name: string | null;
   civID: number | null;
+  connected?: boolean;
+  hotseatHost?: string | null;
 }
 
 interface WorldEventHandlerMap {
@@ -13,9 +15,10 @@ interface WorldEventHandlerMap {
 }
 
 interface EventMsg {
-  actions?: [string, unknown[]][];
+  actions?: [string, unknown[], number?][];
   update?: [string, unknown[]][];
   error?: [string, unknown[]][];
+  requestID?: number;
 }
 
 interface Unit {
@@ -93,10 +96,21 @@ interface Tile {
   visible: boolean;
 }
 
+interface ChatMessage {
+  channel: 'lobby' | 'all' | 'private';
+  sender: string;
+  senderCivID: number | null;
+  recipientCivID?: number;
+  text: string;
+  time: number;
+}
+
 interface GameMetadata {
   gameName: string;
   playerCount: number;
   playersConnected: number;
+  spectatorCount: number;
+  hasPassword: boolean;
 }
 
 type Coords = {
@@ -106,16 +120,28 @@ type Coords = {
 
 type MovementCost = [number, number];
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
 const canTrainUnits: { [improvement: string]: boolean } = {
   'settlement': true,
   'encampment': true,
 };
 
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
 const canResearch: { [improvement: string]: boolean } = {
   'settlement': true,
   'campus': true,
 };
 
+const REQUEST_TIMEOUT = 10000; // ms
+
+/**
+ * @returns the arguments of the first event called `name` in `events`, or null if there is none
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const getEventArgs = (events: [string, unknown[]][] | undefined, name: string): unknown[] | null => {
+  return events?.find(([eventName]) => eventName === name)?.[1] ?? null;
+};
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 class World {
   tiles: Tile[];
@@ -130,6 +156,15 @@ class World {
   on: { update: WorldEventHandlerMap, error: WorldEventHandlerMap, event: WorldEventHandlerMap };
   civs: { [key: string]: Civ };
   player: Player;
+  private nextRequestID: number;
+  private pendingRequests: { [requestID: number]: (reply: EventMsg) => void };
+  /** Version of the map last received from the server, used to notice missed updates */
+  private mapVersion: number;
+  private chunkSize: number;
+  /** The most chunks the server sends at once */
+  private maxChunks: number;
+  /** The chunks last requested from the server, to avoid requesting them again every frame */
+  private chunksKey: string | null;
   constructor() {
     this.tiles = [];
     this.unitPositions = [];
@@ -149,12 +184,59 @@ class World {
       name: null,
       civID: null,
     };
+    this.nextRequestID = 0;
+    this.pendingRequests = {};
+    this.mapVersion = 0;
+    this.chunkSize = 0;
+    this.maxChunks = 0;
+    this.chunksKey = null;
   }
 
   posIndex({ x, y }: Coords): number {
     return (y * this.width) + mod(x, this.width)
   }
 
+  /**
+   * Asks the server for the map chunks overlapping `bounds`, if they differ from the ones last asked for.
+   * The server refuses to send more than `maxChunks` at once, so a zoomed-out view only gets those around its center.
+   */
+  requestChunks(bounds: { x: number, y: number, width: number, height: number }): void {
+    if (!this.chunkSize) return;
+
+    let { x, y, width, height } = bounds;
+    // The map wraps around horizontally, so no view needs more than its width
+    width = Math.min(width, this.width);
+    while (this.countChunks(x, y, width, height) > this.maxChunks && (width > this.chunkSize || height > this.chunkSize)) {
+      if (width >= height) {
+        x += Math.floor(this.chunkSize / 2);
+        width -= this.chunkSize;
+      } else {
+        y += Math.floor(this.chunkSize / 2);
+        height -= this.chunkSize;
+      }
+    }
+
+    const key = [
+      Math.floor(x / this.chunkSize),
+      Math.floor(y / this.chunkSize),
+      Math.ceil((x + width) / this.chunkSize),
+      Math.ceil((y + height) / this.chunkSize),
+    ].join(',');
+    if (key === this.chunksKey) return;
+
+    this.chunksKey = key;
+    this.sendAction('requestChunks', { x, y, width, height });
+  }
+
+  /**
+   * @returns how many chunks `requestChunks` would ask for at most, which is never fewer than the server counts
+   */
+  private countChunks(x: number, y: number, width: number, height: number): number {
+    const columns = Math.ceil((x + width) / this.chunkSize) - Math.floor(x / this.chunkSize);
+    const rows = Math.ceil((y + height) / this.chunkSize) - Math.floor(y / this.chunkSize);
+    return columns * rows;
+  }
+
   getTile(pos: Coords): Tile {
     return this.tiles[this.posIndex(pos)] ?? null;
   }
@@ -328,15 +410,6 @@ class World {
     return null;
   }
 
-  fetchImprovementCatalogs(improvement: Improvement, coords: Coords): void {
-    if (canTrainUnits[improvement.type]) {
-      this.sendActions([[ 'getUnitCatalog', [coords] ]])
-    }
-    if (canResearch[improvement.type]) {
-      this.sendActions([[ 'getKnowledgeCatalog', [coords] ]])
-    }
-  }
-
   sendJSON(data: EventMsg): void {
     this.socket.send(JSON.stringify(data));
   }
@@ -364,6 +437,10 @@ class World {
         }
       }
     }
+    if (data.requestID !== undefined && this.pendingRequests[data.requestID]) {
+      this.pendingRequests[data.requestID](data);
+      delete this.pendingRequests[data.requestID];
+    }
   }
 
   verifyPlayer() {
@@ -373,16 +450,28 @@ class World {
   }
 
   async login(): Promise<void> {
-    let username = localStorage.getItem('username');
-    if (!username) {
-      const [usr, pass] = await ui.textInputs.loginMenu.prompt(ui.root, false);
-      username = usr;
-      localStorage.setItem('username', username);
+    const savedToken = localStorage.getItem('sessionToken');
+    if (savedToken) {
+      const reply = await this.request('resumeSession', [savedToken]).catch(() => null);
+      if (reply && !reply.error) return;
+      localStorage.removeItem('sessionToken');
+    }
+
+    let action: 'login' | 'register' = 'login';
+    let username: string, password: string;
+    try {
+      [username, password] = await ui.textInputs.loginMenu.prompt(ui.root, true);
+    } catch {
+      action = 'register';
+      [username, password] = await ui.textInputs.registerMenu.prompt(ui.root, false);
+    }
+
+    const reply = await this.request(action, [username, password]).catch(() => null);
+    const error = reply?.error?.[0];
+    if (!reply || error) {
+      await ui.textAlerts.errorAlert.alert(ui.root, error ? String(error[1][0]) : translate('error.generic'));
+      return this.login();
     }
-    this.player.name = username;
-    this.sendActions([
-      ['setPlayer', [this.player.name]],
-    ]);
   }
 
   async askConnect(secureProtocol = true) {
@@ -459,16 +548,50 @@ class World {
       ]);
     };
 
+    const hotseatCallbacks = {
+      add: (name: string): void => {
+        this.sendAction('addHotseatPlayer', name);
+      },
+      switchTo: (name: string): void => {
+        this.sendAction('switchHotseatPlayer', name);
+      },
+    };
+
+    this.on.update.currentUser = (username: string | null): void => {
+      this.player.name = username;
+    };
+
+    this.on.update.sessionToken = (sessionToken: string): void => {
+      localStorage.setItem('sessionToken', sessionToken);
+    };
+
     this.on.update.gameList = (gameList: { [key: string]: GameMetadata }): void => {
       if (ui.view === 'gameList') {
         ui.hideAll();
 
+        /**
+         * @returns the password to join `gameID` with (undefined if it has none), or null if the player backed out
+         */
+        const askGamePassword = async (gameID: string): Promise<string | undefined | null> => {
+          if (!gameList[gameID].hasPassword) return undefined;
+          ui.hideGameList();
+          try {
+            const [password] = await ui.textInputs.gamePassword.prompt(ui.root, true);
+            return password;
+          } catch {
+            this.sendActions([
+              ['getGames', []],
+            ]);
+            return null;
+          }
+        };
+
         ui.showGameList(gameList, {
-          joinGame: (gameID: string): void => {
+          joinGame: async (gameID: string): Promise<void> => {
             if (gameID !== null) {
-              this.sendActions([
-                ['joinGame', [gameID]],
-              ]);
+              const password = await askGamePassword(gameID);
+              if (password === null) return;
+              this.sendAction('joinGame', Number(gameID), password);
 
               ui.hideGameList();
               ui.setView('civPicker');
@@ -476,6 +599,28 @@ class World {
               ui.showCivPicker(civPickerFn, this.player);
             }
           },
+          spectateGame: async (gameID: string): Promise<void> => {
+            const password = await askGamePassword(gameID);
+            if (password === null) return;
+            this.sendAction('spectateGame', Number(gameID), null, password);
+
+            ui.hideGameList();
+            ui.setView('spectating');
+          },
+          watchReplay: async (gameID: string): Promise<void> => {
+            ui.hideGameList();
+            const reply = await this.request('openReplay', [Number(gameID)]).catch(() => null);
+            const error = reply?.error?.[0];
+            if (!reply || error) {
+              await ui.textAlerts.errorAlert.alert(ui.root, error ? String(error[1][0]) : translate('error.generic'));
+              ui.setView('gameList');
+              this.sendActions([
+                ['getGames', []],
+              ]);
+              return;
+            }
+            ui.setView('replay');
+          },
           return: (): void => {
             ui.hideGameList();
             ui.setView('mainMenu');
@@ -494,6 +639,10 @@ class World {
       camera.start(this, 1000/60);
     };
 
+    this.on.update.turnTimer = (remaining: number | null): void => {
+      ui.setTurnTimer(remaining);
+    };
+
     this.on.update.beginTurn = (): void => {
       ui.setTurnState(this, true);
       if (this.unitPositions.length === 0) return; // there are no units to for the camera to focus on, return
@@ -501,20 +650,31 @@ class World {
       camera.setPos(camera.toCameraPos(this, unitPos));
     };
 
-    this.on.update.setMap = (map: Tile[]): void => {
-      this.tiles = map;
+    this.on.update.resetMap = (version: number, chunkSize: number, maxChunks: number): void => {
+      this.tiles = [];
+      this.mapVersion = version;
+      this.chunkSize = chunkSize;
+      this.maxChunks = maxChunks;
+      this.chunksKey = null;
     };
 
-    this.on.update.tileUpdate = (pos: Coords, tile: Tile): void => {
-      this.tiles[this.posIndex(pos)] = tile;
-      if (this.selectedPos && pos.x === this.selectedPos.x && pos.y === this.selectedPos.y) {
-        if (tile.improvement && !tile.improvement.isNatural) {
-          ui.hideSidebarMenu();
-          ui.showSidebarMenu(this, pos, tile);
-          this.fetchImprovementCatalogs(tile.improvement, pos);
+    this.on.update.mapDelta = (changes: [Coords, Tile][], version: number): void => {
+      if (version !== this.mapVersion + 1) {
+        // An update was missed, so the map can no longer be trusted
+        this.sendAction('requestMapSync');
+        return;
+      }
+
+      this.mapVersion = version;
+      for (const [pos, tile] of changes) {
+        this.tiles[this.posIndex(pos)] = tile;
+        if (this.selectedPos && pos.x === this.selectedPos.x && pos.y === this.selectedPos.y) {
+          if (tile?.improvement && !tile.improvement.isNatural) {
+            ui.hideSidebarMenu();
+            ui.showSidebarMenu(this, pos, tile);
+          }
         }
       }
-      
     };
 
     this.on.update.unitPositions = (unitPositions: Coords[]): void => {
@@ -529,6 +689,9 @@ class World {
         const unit = this.getTile(endPos).unit;
         if (unit && unit.movement === 0) {
           this.unusedUnits.splice(this.unusedUnits.indexOf(index), 1);
+        } else if (unit && !this.unusedUnits.includes(index)) {
+          // Undoing a move gives the unit its movement back
+          this.unusedUnits.push(index);
         }
         if (this.areSameCoords(camera.selectedUnitPos, startPos)) {
           camera.deselectUnit(this);
@@ -545,6 +708,17 @@ class World {
       camera.deselectUnit(this);
     };
 
+    this.on.update.civEliminated = async (civID: number, leaderName: string | null) => {
+      if (civID === this.player.civID) {
+        // The server moves the player to a spectator's view right after this
+        ui.setTurnState(this, false);
+        this.unitPositions = [];
+        await ui.textAlerts.eliminationAlert.alert(ui.root, translate('eliminated.self'));
+      } else {
+        await ui.textAlerts.eliminationAlert.alert(ui.root, `${leaderName ?? civID} ${translate('eliminated.other')}`);
+      }
+    };
+
     this.on.update.leaderPool = (leaders: Leader[], takenLeaders: Leader[], players: {[playerName: string]: Player}): void => {
       ui.leaderPool = leaders;
       ui.takenLeaders = takenLeaders;
@@ -557,6 +731,29 @@ class World {
       }
       ui.setView('civPicker');
       ui.showCivPicker(civPickerFn, this.player);
+      ui.showHotseatPanel(hotseatCallbacks, this.player.name as string, this.player);
+    };
+
+    this.on.update.hotseatHandoff = (playerName: string, civID: number): void => {
+      this.player.civID = civID;
+      if (ui.view === 'civPicker') {
+        ui.showCivPicker(civPickerFn, this.player);
+        ui.showHotseatPanel(hotseatCallbacks, this.player.name as string, this.player);
+        // Readiness belongs to each hotseat player, so the button starts over
+        ui.showReadyBtn(readyFn);
+      } else {
+        ui.showHotseatScreen(playerName);
+      }
+    };
+
+    this.on.update.playerDisconnected = (playerName: string, civID: number): void => {
+      if (ui.players[playerName]) ui.players[playerName].connected = false;
+      if (ui.civs[civID]) ui.civs[civID].connected = false;
+    };
+
+    this.on.update.playerReconnected = (playerName: string, civID: number): void => {
+      if (ui.players[playerName]) ui.players[playerName].connected = true;
+      if (ui.civs[civID]) ui.civs[civID].connected = true;
     };
 
     this.on.update.civData = (civs: { [key: string]: Civ }) => {
@@ -567,12 +764,77 @@ class World {
       this.player.civID = civID;
     };
 
+    this.on.update.chatHistory = (messages: ChatMessage[]): void => {
+      ui.showChatPanel((channel, text, recipientCivID) => {
+        this.sendAction('sendChat', channel, text, recipientCivID);
+      }, this.player);
+      ui.setChatHistory(messages, this.player);
+    };
+
+    this.on.update.chatMessage = (message: ChatMessage): void => {
+      ui.addChatMessage(message, this.player);
+    };
+
+    this.on.error.chatRejected = async (reason: string) => {
+      await ui.textAlerts.errorAlert.alert(ui.root, reason);
+    };
+
+    this.on.update.gameOver = async (winner: number | null, reason: string) => {
+      ui.setTurnState(this, false);
+      let outcome: string;
+      if (winner === null) {
+        outcome = translate('gameOver.draw');
+      } else if (winner === this.player.civID) {
+        outcome = translate('gameOver.victory');
+      } else {
+        outcome = `${translate('gameOver.winner')}: ${this.civs[winner]?.leader?.name ?? winner}`;
+      }
+      await ui.textAlerts.gameOverAlert.alert(ui.root, `${outcome} (${translate(`gameOver.reason.${reason}`)})`);
+      this.sendAction('getStats');
+    };
+
+    this.on.update.statsHistory = (history: StatsHistory): void => {
+      ui.showStatsScreen(history, this.civs, () => ui.hideStatsScreen());
+    };
+
+    this.on.update.spectating = (): void => {
+      this.player.civID = null;
+    };
+
+    const replayCallbacks = {
+      step: (): void => {
+        this.sendAction('stepReplay');
+      },
+      close: (): void => {
+        this.sendAction('closeReplay');
+        camera.stop();
+        ui.hideAll();
+        ui.setView('gameList');
+        this.sendActions([
+          ['getGames', []],
+        ]);
+      },
+    };
+
+    this.on.update.replayTurn = (turn: number, isFinished: boolean): void => {
+      ui.showReplayControls(turn, isFinished, replayCallbacks);
+    };
+
     this.on.error.notReady = (reason): void => {
       console.error('Error:', reason);
       ui.hideReadyBtn();
       ui.showReadyBtn(readyFn);
     };
 
+    this.on.error.wrongPassword = async (reason) => {
+      ui.hideAll();
+      await ui.textAlerts.errorAlert.alert(ui.root, reason as string);
+      ui.setView('gameList');
+      this.sendActions([
+        ['getGames', []],
+      ]);
+    };
+
     this.on.error.kicked = async (reason) => {
       camera.stop();
       console.error('Kicked:', reason);
@@ -627,7 +889,6 @@ class World {
       this.selectedPos = coords;
       ui.showTileInfoMenu(this, coords, tile);
       if (tile.improvement && !tile.improvement.isNatural) {
-        this.fetchImprovementCatalogs(tile.improvement, coords);
         ui.showSidebarMenu(this, coords, tile);
       } else {
         ui.hideSidebarMenu();
@@ -653,14 +914,15 @@ class World {
         ui.hideMainMenu();
 
         try {
-          const [gameName, playerCount, width, height, seed] = await ui.textInputs.createGame.prompt(ui.root, true);
-          this.sendActions([['createGame', [Number(playerCount), {
+          const [gameName, playerCount, width, height, seed, ruleset] = await ui.textInputs.createGame.prompt(ui.root, true);
+          this.sendAction('createGame', Number(playerCount), {
             width: Number(width),
             height: Number(height),
           }, {
             gameName,
-            seed: Number(seed),
-          }]]])
+            seed: seed ? Number(seed) : undefined,
+            ruleset: ruleset || undefined,
+          });
           ui.setView('gameList');
         } catch {
           ui.setView('mainMenu');
@@ -674,7 +936,8 @@ class World {
         ui.setView('gameList');
       },
       logout: async () => {
-        localStorage.setItem('username', '');
+        localStorage.removeItem('sessionToken');
+        await this.request('logout', []).catch(() => null);
         ui.hideMainMenu();
         await this.login();
         ui.showMainMenu(mainMenuFns);
@@ -695,4 +958,28 @@ class World {
     console.log(this);
     this.sendJSON({ actions });
   }
+
+  sendAction<A extends keyof ActionArgs>(action: A, ...args: ActionArgs[A]): void {
+    this.sendActions([[action, args]]);
+  }
+
+  /**
+   * Sends `action` tagged with a fresh request ID.
+   * @returns a Promise resolving with the first message the server sends in reply to the action,
+   * or rejecting if no reply arrives within `timeout` milliseconds.
+   */
+  request<A extends keyof ActionArgs>(action: A, args: ActionArgs[A], timeout = REQUEST_TIMEOUT): Promise<EventMsg> {
+    const requestID = this.nextRequestID++;
+    return new Promise((resolve: (reply: EventMsg) => void, reject: (reason?: unknown) => void) => {
+      const timer = setTimeout(() => {
+        delete this.pendingRequests[requestID];
+        reject(`Request #${requestID} (${action}) timed out`);
+      }, timeout);
+      this.pendingRequests[requestID] = (reply: EventMsg) => {
+        clearTimeout(timer);
+        resolve(reply);
+      };
+      this.sendJSON({ actions: [[action, args, requestID]] });
+    });
+  }
 }
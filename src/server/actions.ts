@@ -0,0 +1,125 @@
+import { coordsSchema, Schema } from './utils/schema';
+import { DISCONNECT_POLICIES, TURN_MODES } from './game/turns';
+import { CHAT_CHANNELS } from './game/chat';
+import { VICTORY_CONDITIONS } from './game/victory';
+
+export const mapOptionsSchema = Schema.object({
+  width: Schema.integer(),
+  height: Schema.integer(),
+});
+
+export const gameOptionsSchema = Schema.object({
+  seed: Schema.optional(Schema.integer()),
+  gameName: Schema.optional(Schema.string()),
+  disconnectPolicy: Schema.optional(Schema.enum(DISCONNECT_POLICIES)),
+  autosaveInterval: Schema.optional(Schema.integer()),
+  autosaveKeep: Schema.optional(Schema.integer()),
+  turnMode: Schema.optional(Schema.enum(TURN_MODES)),
+  turnTimeLimit: Schema.optional(Schema.number()),
+  turnTimeBonus: Schema.optional(Schema.number()),
+  aiFillsEmptySlots: Schema.optional(Schema.boolean()),
+  ruleset: Schema.optional(Schema.string()),
+  victoryConditions: Schema.optional(Schema.array(Schema.enum(VICTORY_CONDITIONS))),
+  scienceVictoryKnowledges: Schema.optional(Schema.array(Schema.string())),
+  turnLimit: Schema.optional(Schema.integer()),
+});
+
+/**
+ * Argument schemas of every action a client may send, keyed by action name.
+ * Actions whose arguments do not match are rejected before they reach `methods`.
+ */
+export const actionSchemas = {
+  setPlayer: [Schema.string()],
+  register: [Schema.string(), Schema.string()],
+  login: [Schema.string(), Schema.string()],
+  resumeSession: [Schema.string()],
+  logout: [],
+  verifyPlayer: [],
+  exportGame: [],
+  createGame: [Schema.integer(), mapOptionsSchema, Schema.optional(gameOptionsSchema)],
+  joinGame: [Schema.integer(), Schema.optional(Schema.string())],
+  spectateGame: [Schema.integer(), Schema.optional(Schema.nullable(Schema.integer())), Schema.optional(Schema.string())],
+  setSpectatorView: [Schema.nullable(Schema.integer())],
+  requestMapSync: [],
+  requestChunks: [Schema.object({
+    x: Schema.integer(),
+    y: Schema.integer(),
+    width: Schema.integer(),
+    height: Schema.integer(),
+  })],
+  getGames: [],
+  openReplay: [Schema.integer()],
+  stepReplay: [],
+  closeReplay: [],
+  kickPlayer: [Schema.string()],
+  transferOwnership: [Schema.string()],
+  addHotseatPlayer: [Schema.string()],
+  switchHotseatPlayer: [Schema.string()],
+  setPlayerCount: [Schema.integer()],
+  setGamePassword: [Schema.nullable(Schema.string())],
+  deleteGame: [],
+  listSaves: [],
+  loadSave: [Schema.integer()],
+  setLeader: [Schema.integer()],
+  ready: [Schema.boolean()],
+  endTurn: [],
+  turnFinished: [Schema.boolean()],
+  sendChat: [Schema.enum(CHAT_CHANNELS), Schema.string(), Schema.optional(Schema.integer())],
+  attack: [coordsSchema, coordsSchema],
+  moveUnit: [coordsSchema, Schema.array(coordsSchema), Schema.boolean()],
+  undoMove: [],
+  settleCity: [coordsSchema, Schema.string()],
+  getImprovementCatalog: [coordsSchema],
+  buildImprovement: [coordsSchema, Schema.string()],
+  getTraders: [],
+  getStats: [],
+  getUnitCatalog: [coordsSchema],
+  trainUnit: [coordsSchema, Schema.string()],
+  getKnowledgeCatalog: [coordsSchema],
+  researchKnowledge: [coordsSchema, Schema.string()],
+};
+
+export type ActionName = keyof typeof actionSchemas;
+
+/**
+ * Actions that do not change any game, and so remain available while spectating.
+ */
+export const spectatorActions: ReadonlySet<ActionName> = new Set<ActionName>([
+  'setPlayer',
+  'register',
+  'login',
+  'resumeSession',
+  'logout',
+  'verifyPlayer',
+  'joinGame',
+  'getGames',
+  'spectateGame',
+  'setSpectatorView',
+  'requestMapSync',
+  'requestChunks',
+  'sendChat',
+  'listSaves',
+  'getStats',
+  'openReplay',
+  'stepReplay',
+  'closeReplay',
+]);
+
+/**
+ * Actions that play the game, which are written down in its journal so that the game can be replayed.
+ * They can no longer be taken once the game is over.
+ */
+export const journaledActions: ReadonlySet<ActionName> = new Set<ActionName>([
+  'turnFinished',
+  'attack',
+  'moveUnit',
+  'undoMove',
+  'settleCity',
+  'buildImprovement',
+  'trainUnit',
+  'researchKnowledge',
+]);
+
+export const isActionName = (action: unknown): action is ActionName => (
+  typeof action === 'string' && Object.prototype.hasOwnProperty.call(actionSchemas, action)
+);
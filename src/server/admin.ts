@@ -0,0 +1,254 @@
+import * as fs from 'node:fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+
+import { SAVE_LOCATION } from './config';
+import { checkGameOptions, checkPlayerCount, Game, GameOptions } from './game';
+import { InvalidSaveError } from './game/saves';
+import { InvalidRulesetError } from './game/ruleset';
+import { checkAllRulesets } from './game/consistency';
+import { MapOptions } from './game/map';
+import { Coords } from './game/world';
+import { gameOptionsSchema, mapOptionsSchema } from './actions';
+import { GameRegistry } from './registry';
+import { coordsSchema, Schema, validateArgs } from './utils/schema';
+
+/**
+ * Where a running server listens for admin commands. Only processes on the same machine can reach it.
+ */
+export const ADMIN_SOCKET = process.platform === 'win32'
+  ? '\\\\.\\pipe\\civclone-admin'
+  : path.join(SAVE_LOCATION, 'admin.sock');
+
+/**
+ * Thrown when an admin command cannot be carried out, with a reason to show the admin.
+ */
+export class AdminError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'AdminError';
+  }
+}
+
+/**
+ * Argument schemas of every admin command, keyed by command name.
+ */
+export const adminCommandSchemas = {
+  listGames: [],
+  listSaves: [Schema.integer()],
+  createGame: [Schema.integer(), mapOptionsSchema, Schema.optional(gameOptionsSchema)],
+  inspectGame: [Schema.integer()],
+  endTurn: [Schema.integer()],
+  giveUnit: [Schema.integer(), Schema.integer(), Schema.string(), coordsSchema],
+  removeUnit: [Schema.integer(), coordsSchema],
+  exportGame: [Schema.integer()],
+  importGame: [Schema.string()],
+  checkRulesets: [],
+};
+
+export type AdminCommandName = keyof typeof adminCommandSchemas;
+
+export const isAdminCommandName = (command: unknown): command is AdminCommandName => {
+  return typeof command === 'string' && Object.prototype.hasOwnProperty.call(adminCommandSchemas, command);
+};
+
+const loadGame = async (registry: GameRegistry, gameID: number): Promise<Game> => {
+  const game = await registry.load(gameID);
+  if (!game) throw new AdminError(`there is no game #${gameID}`);
+  return game;
+};
+
+/**
+ * What each admin command does. They work the same whether the registry is the running server's or one the CLI opened on the save files,
+ * and save whatever they change right away.
+ */
+const adminCommands: { [command in AdminCommandName]: (registry: GameRegistry, ...args: any[]) => Promise<unknown> } = {
+  listGames: async (registry: GameRegistry) => {
+    await registry.whenReady();
+    const gameList = registry.getGameList();
+    return Object.keys(gameList).map((gameID) => {
+      const { gameName, ownerName, playerCount, playersConnected, players, spectatorCount } = gameList[gameID];
+      return {
+        gameID: Number(gameID),
+        gameName,
+        ownerName: ownerName ?? null,
+        players: Object.keys(players),
+        playerCount,
+        playersConnected,
+        spectatorCount,
+        loaded: registry.isLoaded(Number(gameID)),
+      };
+    });
+  },
+
+  listSaves: async (registry: GameRegistry, gameID: number) => {
+    const game = await loadGame(registry, gameID);
+    return game.listAutosaves();
+  },
+
+  createGame: async (registry: GameRegistry, playerCount: number, mapOptions: MapOptions, options?: GameOptions) => {
+    const reason = checkPlayerCount(playerCount) ?? checkGameOptions(options ?? {});
+    if (reason) throw new AdminError(reason);
+    if (mapOptions.width < 1 || mapOptions.height < 1) throw new AdminError('the map must be at least 1 tile wide and high');
+
+    let game: Game;
+    try {
+      game = await Game.generate(playerCount, mapOptions, options ?? {});
+    } catch (err) {
+      if (err instanceof InvalidRulesetError) throw new AdminError(err.message);
+      throw err;
+    }
+    const gameID = await registry.create(game);
+    return { gameID };
+  },
+
+  inspectGame: async (registry: GameRegistry, gameID: number) => {
+    const game = await loadGame(registry, gameID);
+    const civs: unknown[] = [];
+    game.forEachCivID((civID) => {
+      const civ = game.world.civs[civID];
+      civs.push({
+        civID,
+        player: Object.keys(game.players).find(name => game.players[name].civID === civID) ?? null,
+        leader: civ.getData().leader?.name ?? null,
+        turnActive: civ.turnActive,
+        turnFinished: civ.turnFinished,
+        eliminated: civ.eliminated,
+        units: civ.getUnits().map(({ type, coords, hp, movement }) => ({ type, coords, hp, movement })),
+        cities: game.world.map.cities.filter(city => city.civID === civID).map(({ name, center }) => ({ name, center })),
+      });
+    });
+
+    return {
+      gameID,
+      gameName: game.metaData.gameName,
+      hasStarted: game.hasStarted,
+      turn: game.turn,
+      turnMode: game.metaData.turnMode,
+      result: game.metaData.result,
+      civs,
+    };
+  },
+
+  endTurn: async (registry: GameRegistry, gameID: number) => {
+    const game = await loadGame(registry, gameID);
+    if (!game.hasStarted) throw new AdminError('the game has not started yet');
+    if (game.isFinished()) throw new AdminError('the game is over');
+
+    const turn = game.turn;
+    game.forceEndTurn();
+    await game.save();
+    return { turn: game.turn, roundEnded: game.turn !== turn };
+  },
+
+  giveUnit: async (registry: GameRegistry, gameID: number, civID: number, type: string, coords: Coords) => {
+    const game = await loadGame(registry, gameID);
+    if (game.isFinished()) throw new AdminError('the game is over');
+    const reason = game.giveUnit(civID, type, coords);
+    if (reason) throw new AdminError(reason);
+    await game.save();
+    return null;
+  },
+
+  removeUnit: async (registry: GameRegistry, gameID: number, coords: Coords) => {
+    const game = await loadGame(registry, gameID);
+    if (game.isFinished()) throw new AdminError('the game is over');
+    const reason = game.removeUnitAt(coords);
+    if (reason) throw new AdminError(reason);
+    // The civ may have been eliminated, and with it the last civ the turn was waiting on
+    if (game.hasStarted) game.checkTurnFinished();
+    await game.save();
+    return null;
+  },
+
+  exportGame: async (registry: GameRegistry, gameID: number) => {
+    const game = await loadGame(registry, gameID);
+    return JSON.stringify(game.export());
+  },
+
+  importGame: async (registry: GameRegistry, data: string) => {
+    let game: Game;
+    try {
+      game = Game.import(JSON.parse(data));
+    } catch (err) {
+      if (err instanceof SyntaxError || err instanceof InvalidSaveError) throw new AdminError(err.message);
+      throw err;
+    }
+
+    // The original game's journal is not part of its save, so the imported game can only be replayed from here on
+    if (game.hasStarted) game.startJournal();
+    const gameID = await registry.create(game);
+    return { gameID };
+  },
+
+  checkRulesets: async () => {
+    return await checkAllRulesets();
+  },
+};
+
+/**
+ * Checks and runs an admin command against `registry`.
+ * @returns the command's result, which can always be turned into JSON
+ * @throws AdminError if the command is unknown, its arguments are wrong or it cannot be carried out
+ */
+export const runAdminCommand = async (registry: GameRegistry, command: unknown, args: unknown): Promise<unknown> => {
+  if (!isAdminCommandName(command)) throw new AdminError(`unknown command ${JSON.stringify(command)}`);
+
+  const reason = validateArgs(adminCommandSchemas[command], args);
+  if (reason) throw new AdminError(reason);
+
+  return adminCommands[command](registry, ...(args as unknown[]));
+};
+
+/**
+ * Listens on `ADMIN_SOCKET` for admin commands to run against the server's games.
+ * Each connection sends one command as a line of JSON, `{ "command": ..., "args": [...] }`,
+ * and is answered with a line of JSON holding either its `result` or an `error`.
+ */
+export const startAdminServer = async (registry: GameRegistry): Promise<net.Server> => {
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const end = buffer.indexOf('\n');
+      if (end === -1) return;
+      socket.removeAllListeners('data');
+
+      const reply = (msg: { result?: unknown, error?: string }) => socket.end(`${JSON.stringify(msg)}\n`);
+      let request: { command?: unknown, args?: unknown };
+      try {
+        request = JSON.parse(buffer.slice(0, end));
+      } catch (err) {
+        reply({ error: 'bad JSON' });
+        return;
+      }
+
+      runAdminCommand(registry, request?.command, request?.args ?? []).then(
+        (result) => reply({ result: result ?? null }),
+        (err) => {
+          if (!(err instanceof AdminError)) console.error(err);
+          reply({ error: err instanceof AdminError ? err.message : 'internal error, see the server log' });
+        },
+      );
+    });
+    socket.on('error', (err) => console.error('Admin connection error:', err));
+  });
+
+  if (process.platform !== 'win32') {
+    // A socket file left behind by a server that crashed would keep this one from listening
+    await fs.rm(ADMIN_SOCKET, { force: true });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(ADMIN_SOCKET, resolve);
+  });
+
+  if (process.platform !== 'win32') {
+    // Whoever can use the socket has full control over every game, so only the server's own user may
+    await fs.chmod(ADMIN_SOCKET, 0o600);
+  }
+
+  return server;
+};
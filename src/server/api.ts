@@ -0,0 +1,125 @@
+import * as crypto from 'crypto';
+import express from 'express';
+
+import { AdminError, runAdminCommand } from './admin';
+import { connData, connections, shutDownGame } from './methods';
+import { metrics } from './metrics';
+import { registry } from './registry';
+
+/**
+ * The token admin API requests must carry as `Authorization: Bearer <token>`. The admin API is turned off when it is not set.
+ */
+const ADMIN_TOKEN = process.env.CIVCLONE_ADMIN_TOKEN || null;
+
+const hashToken = (token: string): Buffer => crypto.createHash('sha256').update(token).digest();
+
+/**
+ * Turns away requests without the admin token. Tokens are compared by their hashes in constant time, so that timing gives nothing away.
+ */
+const checkToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (ADMIN_TOKEN === null) {
+    res.status(503).json({ error: 'The admin API is turned off; set CIVCLONE_ADMIN_TOKEN to turn it on' });
+    return;
+  }
+
+  const match = req.get('Authorization')?.match(/^Bearer (.+)$/);
+  if (!match || !crypto.timingSafeEqual(hashToken(match[1]), hashToken(ADMIN_TOKEN))) {
+    res.status(401).json({ error: 'Missing or wrong admin token' });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Lets `handler` be async, since express does not catch the errors of rejected promises by itself.
+ */
+const handleAsync = (handler: (req: express.Request, res: express.Response) => Promise<void>) => {
+  return (req: express.Request, res: express.Response) => {
+    handler(req, res).catch((err) => {
+      if (err instanceof AdminError) {
+        res.status(400).json({ error: err.message });
+      } else {
+        console.error(err);
+        res.status(500).json({ error: 'Internal error, see the server log' });
+      }
+    });
+  };
+};
+
+const getGameID = async (req: express.Request, res: express.Response): Promise<number | null> => {
+  await registry.whenReady();
+  const gameID = Number(req.params.gameID);
+  if (!Number.isInteger(gameID) || !(gameID in registry.getGameList())) {
+    res.status(404).json({ error: `There is no game #${req.params.gameID}` });
+    return null;
+  }
+  return gameID;
+};
+
+/**
+ * Tells whether the server is up, for load balancers and uptime checks. It needs no token.
+ */
+export const healthCheck = (req: express.Request, res: express.Response) => {
+  res.json({
+    status: 'ok',
+    uptime: Math.floor(process.uptime()),
+  });
+};
+
+/**
+ * A JSON API for operating the server, which every request must carry the admin token to use.
+ */
+export const createAdminAPI = (): express.Router => {
+  const router = express.Router();
+  router.use(checkToken);
+  if (ADMIN_TOKEN === null) {
+    console.log('The admin API is turned off; set CIVCLONE_ADMIN_TOKEN to turn it on');
+  }
+
+  router.get('/games', handleAsync(async (req, res) => {
+    await registry.whenReady();
+    res.json(registry.getGameList());
+  }));
+
+  router.get('/games/:gameID', handleAsync(async (req, res) => {
+    const gameID = await getGameID(req, res);
+    if (gameID === null) return;
+    res.json(await runAdminCommand(registry, 'inspectGame', [gameID]));
+  }));
+
+  router.post('/games/:gameID/save', handleAsync(async (req, res) => {
+    const gameID = await getGameID(req, res);
+    if (gameID === null) return;
+
+    // Games that are not loaded have nothing unsaved
+    const game = registry.games[gameID];
+    await game?.save();
+    res.json({ saved: !!game });
+  }));
+
+  router.post('/games/:gameID/shutdown', handleAsync(async (req, res) => {
+    const gameID = await getGameID(req, res);
+    if (gameID === null) return;
+
+    const wasLoaded = registry.isLoaded(gameID);
+    await shutDownGame(gameID);
+    res.json({ wasLoaded });
+  }));
+
+  router.get('/users', (req, res) => {
+    res.json(connData.filter(conn => conn.username !== null).map(({ username, ip, gameID, spectating, replay }) => ({
+      username,
+      ip: ip ?? null,
+      gameID,
+      spectating,
+      watchingReplay: replay !== null,
+    })));
+  });
+
+  router.get('/metrics', (req, res) => {
+    res.json(metrics.getStats(connections.length));
+  });
+
+  return router;
+};
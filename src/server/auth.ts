@@ -0,0 +1,146 @@
+import * as crypto from 'crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+
+import { SAVE_LOCATION } from './config';
+import { writeFileAtomic } from './utils/files';
+
+const ACCOUNTS_FILE = path.join(SAVE_LOCATION, '../accounts.json');
+
+const KEY_LENGTH = 64;
+const MAX_USERNAME_LENGTH = 32;
+const SESSION_LIFETIME = 30 * 24 * 60 * 60 * 1000; // ms
+
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+}
+
+interface SessionData {
+  username: string;
+  expires: number;
+}
+
+const deriveKey = (password: string, salt: string): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = (await deriveKey(password, salt)).toString('hex');
+  return { salt, hash };
+};
+
+export const checkPassword = async (password: string, { salt, hash }: PasswordHash): Promise<boolean> => {
+  const key = await deriveKey(password, salt);
+  return crypto.timingSafeEqual(key, Buffer.from(hash, 'hex'));
+};
+
+export class AccountStore {
+  private accounts: { [username: string]: PasswordHash };
+  private sessions: { [token: string]: SessionData };
+  private ready: Promise<void>;
+  private saving: Promise<void>;
+
+  constructor(private file: string) {
+    // Without a prototype, names such as "constructor" are not mistaken for existing accounts or sessions
+    this.accounts = Object.create(null);
+    this.sessions = Object.create(null);
+    this.saving = Promise.resolve();
+    this.ready = this.load();
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.file, { encoding: 'utf8' }));
+      this.accounts = Object.assign(Object.create(null), data.accounts);
+      this.sessions = Object.assign(Object.create(null), data.sessions);
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+  }
+
+  private save(): Promise<void> {
+    // Chain writes so that two overlapping saves cannot interleave.
+    this.saving = this.saving.then(() => writeFileAtomic(this.file, JSON.stringify({
+      accounts: this.accounts,
+      sessions: this.sessions,
+    })));
+    return this.saving;
+  }
+
+  private async createSession(username: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+    this.sessions[token] = { username, expires: Date.now() + SESSION_LIFETIME };
+    await this.save();
+    return token;
+  }
+
+  /**
+   * @returns a session token for the new account
+   * @throws a user-facing reason string if the account cannot be created
+   */
+  async register(username: string, password: string): Promise<string> {
+    await this.ready;
+    username = username.trim();
+    if (!username || username.length > MAX_USERNAME_LENGTH) throw `Usernames must be 1 to ${MAX_USERNAME_LENGTH} characters long`;
+    if (!password) throw 'Please provide a password';
+    if (username in this.accounts) throw 'That username is taken';
+
+    const passwordHash = await hashPassword(password);
+    // Someone else may have registered the name while the password was being hashed
+    if (username in this.accounts) throw 'That username is taken';
+    this.accounts[username] = passwordHash;
+    return this.createSession(username);
+  }
+
+  /**
+   * @returns a session token, or null if the username or password is wrong
+   */
+  async login(username: string, password: string): Promise<string | null> {
+    await this.ready;
+    const account = this.accounts[username.trim()];
+    if (!account) return null;
+
+    if (!await checkPassword(password, account)) return null;
+
+    return this.createSession(username.trim());
+  }
+
+  /**
+   * Like getSessionUser, but waits for the stored sessions to be loaded first.
+   */
+  async resumeSession(token: string): Promise<string | null> {
+    await this.ready;
+    return this.getSessionUser(token);
+  }
+
+  /**
+   * @returns the username owning `token`, or null if the session is unknown or expired
+   */
+  getSessionUser(token: string | null): string | null {
+    if (!token) return null;
+    const session = this.sessions[token];
+    if (!session) return null;
+    if (session.expires < Date.now()) {
+      delete this.sessions[token];
+      return null;
+    }
+    return session.username;
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.ready;
+    if (token in this.sessions) {
+      delete this.sessions[token];
+      await this.save();
+    }
+  }
+}
+
+export const accounts = new AccountStore(ACCOUNTS_FILE);
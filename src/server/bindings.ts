@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { actionSchemas } from './actions';
+import { Schema, toTypeScript } from './utils/schema';
+
+/***
+ * Generates the typed client bindings for the actions declared in ./actions.ts.
+ * Run with `npm run bindings` after building.
+ */
+
+const OUTPUT_PATH = path.join(__dirname, '../../src/client/actions.d.ts');
+
+const argToTypeScript = (schema: Schema): string => {
+  if (schema.kind !== 'optional') return toTypeScript(schema);
+  const type = toTypeScript(schema.schema);
+  return /^[\w[\]]+$/.test(type) || type.startsWith('{') ? `${type}?` : `(${type})?`;
+};
+
+const lines = [
+  '// This file is generated by `npm run bindings` from src/server/actions.ts - do not edit it by hand.',
+  '',
+  '// eslint-disable-next-line @typescript-eslint/no-unused-vars',
+  'interface ActionArgs {',
+];
+for (const action in actionSchemas) {
+  const schemas: Schema[] = actionSchemas[action];
+  lines.push(`  ${action}: [${schemas.map(argToTypeScript).join(', ')}];`);
+}
+lines.push('}', '');
+
+fs.writeFileSync(OUTPUT_PATH, lines.join('\n'));
+console.log(`Wrote client bindings to ${OUTPUT_PATH}`);
@@ -0,0 +1,198 @@
+import * as fs from 'node:fs/promises';
+import * as net from 'net';
+
+import { AdminCommandName, AdminError, ADMIN_SOCKET, runAdminCommand } from './admin';
+
+/***
+ * Admin CLI for the game server. Run with `npm run admin -- <command> [arguments]` after building.
+ * Commands go to the running server through its admin socket, or straight to the save files if no server is running.
+ */
+
+interface CLICommand {
+  usage: string;
+  description: string;
+  /** Turns the command line arguments into an admin command */
+  parse: (args: string[]) => Promise<[AdminCommandName, unknown[]]>;
+  /** Shows the command's result, which is printed as JSON if this is not given */
+  output?: (result: unknown, args: string[]) => Promise<void>;
+}
+
+const parseInteger = (value: string | undefined, name: string): number => {
+  const number = Number(value);
+  if (value === undefined || !Number.isInteger(number)) throw new AdminError(`${name} must be an integer`);
+  return number;
+};
+
+const cliCommands: { [name: string]: CLICommand } = {
+  'list': {
+    usage: 'list',
+    description: 'List every game',
+    parse: async () => ['listGames', []],
+  },
+  'saves': {
+    usage: 'saves <gameID>',
+    description: 'List the autosaves a game can be rolled back to',
+    parse: async ([gameID]) => ['listSaves', [parseInteger(gameID, 'gameID')]],
+  },
+  'create': {
+    usage: 'create <playerCount> <width> <height> [seed] [name] [ruleset]',
+    description: 'Create a game on a newly generated map',
+    parse: async ([playerCount, width, height, seed, gameName, ruleset]) => ['createGame', [
+      parseInteger(playerCount, 'playerCount'),
+      { width: parseInteger(width, 'width'), height: parseInteger(height, 'height') },
+      {
+        ...(seed === undefined ? {} : { seed: parseInteger(seed, 'seed') }),
+        ...(gameName === undefined ? {} : { gameName }),
+        ...(ruleset === undefined ? {} : { ruleset }),
+      },
+    ]],
+  },
+  'inspect': {
+    usage: 'inspect <gameID>',
+    description: 'Show the turn state and every civ of a game',
+    parse: async ([gameID]) => ['inspectGame', [parseInteger(gameID, 'gameID')]],
+  },
+  'end-turn': {
+    usage: 'end-turn <gameID>',
+    description: 'Finish the turn of every civ still playing it',
+    parse: async ([gameID]) => ['endTurn', [parseInteger(gameID, 'gameID')]],
+  },
+  'give-unit': {
+    usage: 'give-unit <gameID> <civID> <unitType> <x> <y>',
+    description: 'Give a civ a new unit',
+    parse: async ([gameID, civID, unitType, x, y]) => {
+      if (unitType === undefined) throw new AdminError('unitType is required');
+      return ['giveUnit', [
+        parseInteger(gameID, 'gameID'),
+        parseInteger(civID, 'civID'),
+        unitType,
+        { x: parseInteger(x, 'x'), y: parseInteger(y, 'y') },
+      ]];
+    },
+  },
+  'remove-unit': {
+    usage: 'remove-unit <gameID> <x> <y>',
+    description: 'Remove the unit on a tile',
+    parse: async ([gameID, x, y]) => ['removeUnit', [
+      parseInteger(gameID, 'gameID'),
+      { x: parseInteger(x, 'x'), y: parseInteger(y, 'y') },
+    ]],
+  },
+  'export': {
+    usage: 'export <gameID> [file]',
+    description: 'Write the save of a game to a file, or to stdout',
+    parse: async ([gameID]) => ['exportGame', [parseInteger(gameID, 'gameID')]],
+    output: async (data: string, [, file]) => {
+      if (file === undefined) {
+        process.stdout.write(`${data}\n`);
+      } else {
+        await fs.writeFile(file, data);
+        console.log(`Wrote the save to ${file}`);
+      }
+    },
+  },
+  'import': {
+    usage: 'import <file>',
+    description: 'Add the game saved in a file as a new game',
+    parse: async ([file]) => {
+      if (file === undefined) throw new AdminError('file is required');
+      return ['importGame', [await fs.readFile(file, { encoding: 'utf8' })]];
+    },
+  },
+  'check-rulesets': {
+    usage: 'check-rulesets',
+    description: 'Report every dangling reference and missing rule in each ruleset',
+    parse: async () => ['checkRulesets', []],
+    output: async (results: { [name: string]: string[] }) => {
+      for (const name in results) {
+        const issues = results[name];
+        console.log(`${name}: ${issues.length === 0 ? 'no issues' : `${issues.length} issue(s)`}`);
+        for (const issue of issues) {
+          console.log(`  - ${issue}`);
+        }
+        if (issues.length > 0) process.exitCode = 1;
+      }
+    },
+  },
+};
+
+const printUsage = () => {
+  console.log('Usage: npm run admin -- <command> [arguments]\n\nCommands:');
+  for (const name in cliCommands) {
+    const { usage, description } = cliCommands[name];
+    console.log(`  ${usage.padEnd(62)} ${description}`);
+  }
+};
+
+/**
+ * Sends an admin command to the running server.
+ * @returns the command's result, or null if no server is listening
+ */
+const sendToServer = (command: AdminCommandName, args: unknown[]): Promise<{ result: unknown } | null> => {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    const socket = net.connect(ADMIN_SOCKET, () => {
+      socket.write(`${JSON.stringify({ command, args })}\n`);
+    });
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+    });
+    socket.on('end', () => {
+      try {
+        const { result, error } = JSON.parse(buffer);
+        if (error) reject(new AdminError(error));
+        else resolve({ result });
+      } catch (err) {
+        reject(new AdminError('the server sent an unreadable reply'));
+      }
+    });
+    socket.on('error', (err: NodeJS.ErrnoException) => {
+      if (err.code === 'ENOENT' || err.code === 'ECONNREFUSED') resolve(null);
+      else reject(err);
+    });
+  });
+};
+
+/**
+ * Runs an admin command on the save files directly, for when the server is not running.
+ */
+const runOffline = async (command: AdminCommandName, args: unknown[]): Promise<unknown> => {
+  // Imported here, as opening the registry makes it write to the save directory, which must be left to the server while it runs
+  const { registry } = await import('./registry');
+  try {
+    return await runAdminCommand(registry, command, args);
+  } finally {
+    await registry.unloadAll();
+  }
+};
+
+const main = async () => {
+  const [name, ...args] = process.argv.slice(2);
+  const cliCommand = cliCommands[name];
+  if (!cliCommand) {
+    printUsage();
+    if (name !== undefined && name !== 'help') process.exitCode = 1;
+    return;
+  }
+
+  const [command, commandArgs] = await cliCommand.parse(args);
+  let reply = await sendToServer(command, commandArgs);
+  if (!reply) {
+    console.error('No server is running, so working on the save files directly.');
+    reply = { result: await runOffline(command, commandArgs) };
+  }
+
+  if (cliCommand.output) {
+    await cliCommand.output(reply.result, args);
+  } else if (reply.result === null) {
+    console.log('Done.');
+  } else {
+    console.log(JSON.stringify(reply.result, null, 2));
+  }
+};
+
+main().catch((err) => {
+  console.error(err instanceof AdminError ? `Error: ${err.message}` : err);
+  process.exitCode = 1;
+});
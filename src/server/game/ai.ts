@@ -0,0 +1,278 @@
+import { Coords, World } from './world';
+import { PromotionClass, Unit } from './map/tile/unit';
+import { Tile } from './map/tile';
+import { mod } from '../utils';
+
+/** Settlers will not found a city closer than this to another one */
+const MIN_CITY_DISTANCE = 4;
+/** AI civs stop training settlers once they have this many cities */
+const MAX_CITIES = 6;
+/** Number of military units an AI civ keeps per city */
+const MILITARY_PER_CITY = 2;
+/** Military units without a target stay within this distance of their nearest city */
+const GUARD_DISTANCE = 2;
+/** Enemies further away than this are not worth chasing */
+const CHASE_DISTANCE = 6;
+
+const MILITARY_UNIT_PREFERENCE = ['archer', 'warrior', 'slinger'];
+
+/**
+ * Plays a civ's turn on the server, through the same world operations that human players' actions go through.
+ * The AI only acts on what the civ can see, so that it does not cheat through the fog of war.
+ */
+export class AIController {
+  private world: World;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  playTurn(civID: number): void {
+    const civ = this.world.civs[civID];
+
+    // Units can die or be used up while the turn is played, so go over a copy
+    for (const unit of [...civ.units]) {
+      if (unit.isDead()) continue;
+
+      if (unit.type === 'settler') {
+        this.playSettler(civID, unit);
+      } else if (unit.type === 'builder') {
+        this.playBuilder(civID, unit);
+      } else if (unit.promotionClass === PromotionClass.RECON) {
+        this.playScout(civID, unit);
+      } else if (unit.promotionClass !== PromotionClass.CIVILLIAN) {
+        this.playMilitary(civID, unit);
+      }
+    }
+
+    this.manageCities(civID);
+  }
+
+  private playSettler(civID: number, unit: Unit): void {
+    const { map } = this.world;
+
+    if (this.canSettleAt(unit.coords)) {
+      const cityCount = map.cities.filter(city => city.civID === civID).length;
+      const leaderName = this.world.civs[civID].leader?.getData().name ?? 'City';
+      if (this.world.orderSettleCity(civID, unit.coords, `${leaderName} ${cityCount + 1}`)) return;
+    }
+
+    const reachable = this.getReachableCoords(unit).filter(coords => this.canSettleAt(coords));
+    if (reachable.length > 0) {
+      const best = reachable.reduce((best, coords) => this.getSettleScore(coords) > this.getSettleScore(best) ? coords : best);
+      this.moveUnitTo(unit, best);
+    } else {
+      this.explore(civID, unit);
+    }
+  }
+
+  private playBuilder(civID: number, unit: Unit): void {
+    const { map } = this.world;
+    const tile = map.getTile(unit.coords);
+
+    if (this.canBuildAt(civID, tile)) {
+      const catalog = tile.getImprovementCatalog();
+      if (catalog) {
+        map.startConstructionAt(unit.coords, catalog[0].type, civID);
+        return;
+      }
+    }
+
+    const sites: Coords[] = [];
+    map.forEachTile((tile, coords) => {
+      if (this.canBuildAt(civID, tile) && !tile.unit) sites.push(coords);
+    });
+    const site = this.getNearest(unit.coords, sites);
+    if (site) this.moveToward(unit, site);
+  }
+
+  private playScout(civID: number, unit: Unit): void {
+    if (this.attackIfAdvantageous(civID, unit)) return;
+    this.explore(civID, unit);
+  }
+
+  private playMilitary(civID: number, unit: Unit): void {
+    if (this.attackIfAdvantageous(civID, unit)) return;
+
+    const enemies = this.getVisibleEnemies(civID)
+      .filter(enemy => this.getDistance(unit.coords, enemy.coords) <= CHASE_DISTANCE && this.isAdvantageous(unit, enemy));
+    const target = this.getNearest(unit.coords, enemies.map(enemy => enemy.coords));
+    if (target) {
+      this.moveToward(unit, target);
+      this.attackIfAdvantageous(civID, unit);
+      return;
+    }
+
+    const cityCenters = this.world.map.cities.filter(city => city.civID === civID).map(city => city.center);
+    const home = this.getNearest(unit.coords, cityCenters);
+    if (!home) {
+      this.explore(civID, unit);
+    } else if (this.getDistance(unit.coords, home) > GUARD_DISTANCE) {
+      this.moveToward(unit, home);
+    }
+  }
+
+  /**
+   * Starts training and research errands on every improvement of the civ that is idle.
+   */
+  private manageCities(civID: number): void {
+    const { map } = this.world;
+    const civ = this.world.civs[civID];
+
+    const cityCount = map.cities.filter(city => city.civID === civID).length;
+    const unitCounts: { [type: string]: number } = {};
+    let militaryCount = 0;
+    for (const unit of civ.units) {
+      unitCounts[unit.type] = (unitCounts[unit.type] ?? 0) + 1;
+      if (unit.promotionClass === PromotionClass.MELEE || unit.promotionClass === PromotionClass.RANGED) militaryCount++;
+    }
+
+    map.forEachTile((tile, coords) => {
+      if (tile.owner?.civID !== civID || !tile.improvement || tile.improvement.errand) return;
+
+      const trainable = tile.getUnitCatalog()?.map(({ type }) => type) ?? [];
+      let unitType: string | undefined;
+      if (cityCount < MAX_CITIES && !unitCounts['settler'] && trainable.includes('settler')) {
+        unitType = 'settler';
+      } else if ((unitCounts['builder'] ?? 0) < cityCount && trainable.includes('builder')) {
+        unitType = 'builder';
+      } else if (militaryCount < cityCount * MILITARY_PER_CITY) {
+        unitType = MILITARY_UNIT_PREFERENCE.find(type => trainable.includes(type));
+      }
+
+      if (unitType) {
+        map.trainUnitAt(coords, unitType, civID);
+        unitCounts[unitType] = (unitCounts[unitType] ?? 0) + 1;
+        if (MILITARY_UNIT_PREFERENCE.includes(unitType)) militaryCount++;
+        return;
+      }
+
+      const knowledge = tile.getKnowledgeCatalog()?.[0];
+      if (knowledge) {
+        map.researchKnowledgeAt(coords, knowledge.name, civID);
+      }
+    });
+  }
+
+  /**
+   * Attacks the weakest enemy in range, if the attack is likely to go well.
+   * @returns whether the unit attacked
+   */
+  private attackIfAdvantageous(civID: number, unit: Unit): boolean {
+    const targets = this.getVisibleEnemies(civID)
+      .filter(enemy => this.world.map.canUnitAttack(unit, enemy) && this.isAdvantageous(unit, enemy));
+    if (targets.length === 0) return false;
+
+    const target = targets.reduce((weakest, enemy) => enemy.hp < weakest.hp ? enemy : weakest);
+    return this.world.attackWith(unit, target);
+  }
+
+  private isAdvantageous(attacker: Unit, defender: Unit): boolean {
+    const [attackerOffense] = attacker.combatStats;
+    const [, defenderDefense] = defender.combatStats;
+    return attackerOffense * attacker.hp > defenderDefense * defender.hp;
+  }
+
+  private getVisibleEnemies(civID: number): Unit[] {
+    const enemies: Unit[] = [];
+    for (const otherCivID in this.world.civs) {
+      if (Number(otherCivID) === civID) continue;
+      for (const unit of this.world.civs[otherCivID].units) {
+        if (!unit.isDead() && this.world.map.getTile(unit.coords).visibleTo[civID] > 0) enemies.push(unit);
+      }
+    }
+    return enemies;
+  }
+
+  /**
+   * Moves the unit to wherever it can reach that would reveal the most undiscovered tiles.
+   */
+  private explore(civID: number, unit: Unit): void {
+    const { map } = this.world;
+    const countUndiscovered = (coords: Coords) => map.getNeighborsCoords(coords, unit.visionRange)
+      .filter(neighbor => !map.getTile(neighbor).discoveredBy[civID]).length;
+
+    const reachable = this.getReachableCoords(unit);
+    if (reachable.length === 0) return;
+
+    const best = reachable.reduce((best, coords) => countUndiscovered(coords) > countUndiscovered(best) ? coords : best);
+    if (countUndiscovered(best) > 0) {
+      this.moveUnitTo(unit, best);
+    } else {
+      // Nothing new nearby, so wander off in the hope of finding something
+      this.moveUnitTo(unit, reachable[Math.floor(this.world.random.randFloat(reachable.length))]);
+    }
+  }
+
+  /**
+   * Moves the unit as close to `target` as it can get this turn.
+   */
+  private moveToward(unit: Unit, target: Coords): void {
+    const reachable = this.getReachableCoords(unit);
+    const closest = this.getNearest(target, reachable);
+    if (closest && this.getDistance(closest, target) < this.getDistance(unit.coords, target)) {
+      this.moveUnitTo(unit, closest);
+    }
+  }
+
+  private moveUnitTo(unit: Unit, target: Coords): void {
+    const { map } = this.world;
+    const [pathTree] = map.getPathTree(unit.coords, unit.movement, unit.movementClass);
+
+    const path: Coords[] = [];
+    let coords: Coords | undefined = target;
+    while (coords && map.pos(coords) !== map.pos(unit.coords)) {
+      path.push(coords);
+      coords = pathTree[map.pos(coords)];
+    }
+    if (!coords) return;
+
+    this.world.moveUnitAlong(unit, path.reverse());
+  }
+
+  /**
+   * @returns the unoccupied coords the unit can move to this turn
+   */
+  private getReachableCoords(unit: Unit): Coords[] {
+    const { map } = this.world;
+    const [pathTree] = map.getPathTree(unit.coords, unit.movement, unit.movementClass);
+    return Object.keys(pathTree)
+      .map(pos => map.coords(Number(pos)))
+      .filter(coords => map.isInBounds(coords) && !map.getTile(coords).unit);
+  }
+
+  private canSettleAt(coords: Coords): boolean {
+    const { map } = this.world;
+    return map.canSettleOn(map.getTile(coords)) &&
+      map.cities.every(city => this.getDistance(city.center, coords) >= MIN_CITY_DISTANCE);
+  }
+
+  private getSettleScore(coords: Coords): number {
+    const { map } = this.world;
+    return map.getNeighborsCoords(coords).reduce((score, neighbor) => {
+      const { food, production } = map.getTile(neighbor).baseYield;
+      return score + food + production;
+    }, 0);
+  }
+
+  private canBuildAt(civID: number, tile: Tile): boolean {
+    return tile.owner?.civID === civID && !tile.improvement && this.world.map.canBuildOn(tile);
+  }
+
+  private getNearest(origin: Coords, candidates: Coords[]): Coords | null {
+    let nearest: Coords | null = null;
+    for (const coords of candidates) {
+      if (!nearest || this.getDistance(origin, coords) < this.getDistance(origin, nearest)) nearest = coords;
+    }
+    return nearest;
+  }
+
+  /**
+   * A rough distance for comparing how far apart tiles are, wrapping around the map horizontally.
+   */
+  private getDistance(a: Coords, b: Coords): number {
+    const { width } = this.world.map;
+    const dx = mod(a.x - b.x, width);
+    return Math.max(Math.min(dx, width - dx), Math.abs(a.y - b.y));
+  }
+}
@@ -0,0 +1,53 @@
+export type ChatChannel = 'lobby' | 'all' | 'private';
+
+export const CHAT_CHANNELS: readonly ChatChannel[] = ['lobby', 'all', 'private'];
+
+export const MAX_MESSAGE_LENGTH = 500;
+const MAX_HISTORY = 500;
+
+export interface ChatMessage {
+  channel: ChatChannel;
+  sender: string;
+  /** null if the sender is a spectator */
+  senderCivID: number | null;
+  /** Only set on private messages */
+  recipientCivID?: number;
+  text: string;
+  time: number;
+}
+
+export class Chat {
+  private messages: ChatMessage[];
+
+  constructor() {
+    this.messages = [];
+  }
+
+  export() {
+    return this.messages;
+  }
+
+  static import(data: any): Chat {
+    const chat = new Chat();
+    chat.messages = data;
+    return chat;
+  }
+
+  addMessage(message: ChatMessage): void {
+    this.messages.push(message);
+    if (this.messages.length > MAX_HISTORY) {
+      this.messages.splice(0, this.messages.length - MAX_HISTORY);
+    }
+  }
+
+  /**
+   * @param civID the civ reading the history, or null for a spectator
+   * @returns the messages `civID` may read: every public message, plus the private messages it sent or received
+   */
+  getVisibleMessages(civID: number | null): ChatMessage[] {
+    return this.messages.filter(message => (
+      message.channel !== 'private' ||
+      (civID !== null && (message.senderCivID === civID || message.recipientCivID === civID))
+    ));
+  }
+}
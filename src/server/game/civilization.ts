@@ -1,6 +1,21 @@
 import { Leader, LeaderData } from './leader';
 import { Unit } from './map/tile/unit';
 
+/**
+ * What a unit's move changed, so that the move can be taken back as long as nothing else happened to the unit since.
+ */
+export interface UndoableMove {
+  srcCoords: Coords;
+  dstCoords: Coords;
+  /** The unit's movement before the move */
+  movement: number;
+  /** The unit's movement and hp right after the move, which tell whether it has done anything since */
+  movementLeft: number;
+  hp: number;
+  /** The civ's visibility counter of every tile the unit saw from either end of the move, as they were before it */
+  visibility: { coords: Coords, visibleTo: number }[];
+}
+
 export interface CivilizationData {
   color?: string;
   leader?: LeaderData;
@@ -11,11 +26,20 @@ export class Civilization {
   leader?: Leader;
   turnActive: boolean;
   turnFinished: boolean;
+  /** Whether the civ has lost all of its units and cities, after which it no longer takes turns */
+  eliminated: boolean;
+  /** Whether the civ has ever founded a city, as only its first one counts towards a domination victory */
+  hasSettled: boolean;
+  /** Moves made this turn that can still be undone, most recent last */
+  undoStack: UndoableMove[];
 
   constructor() {
     this.units = [];
     this.turnActive = false;
     this.turnFinished = false;
+    this.eliminated = false;
+    this.hasSettled = false;
+    this.undoStack = [];
   }
 
   export() {
@@ -23,6 +47,9 @@ export class Civilization {
       units: this.units.map(unit => unit.export()),
       turnActive: this.turnActive,
       turnFinished: this.turnFinished,
+      eliminated: this.eliminated,
+      hasSettled: this.hasSettled,
+      undoStack: this.undoStack,
     };
   }
 
@@ -31,6 +58,9 @@ export class Civilization {
     // civ.units = data.units.map(unitData => Unit.import(unitData));
     civ.turnActive = data.turnActive;
     civ.turnFinished = data.turnFinished;
+    civ.eliminated = data.eliminated;
+    civ.hasSettled = data.hasSettled;
+    civ.undoStack = data.undoStack;
     return civ;
   }
 
@@ -45,6 +75,7 @@ export class Civilization {
   newTurn() {
     this.turnActive = true;
     this.turnFinished = false;
+    this.undoStack = [];
 
     for (const unit of this.units) {
       unit.newTurn();
@@ -53,6 +84,12 @@ export class Civilization {
 
   endTurn() {
     this.turnActive = false;
+    this.undoStack = [];
+  }
+
+  eliminate() {
+    this.eliminated = true;
+    this.undoStack = [];
   }
 
   getUnits(): Unit[] {
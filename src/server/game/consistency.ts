@@ -0,0 +1,232 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+
+import { GENERATED_TILE_TYPES } from './map/generator';
+import { KnowledgeBranch } from './map/tile/knowledge';
+import { PromotionClass } from './map/tile/unit';
+import { InvalidRulesetError, Ruleset, RulesetData } from './ruleset';
+
+/**
+ * Where the client the server hands out is built to, relative to this file once compiled.
+ */
+const CLIENT_DIRECTORY = path.join(__dirname, '../../client');
+
+/** Units and improvements the game places by itself, whatever the ruleset says */
+const REQUIRED_UNITS = ['settler', 'builder', 'scout'];
+const REQUIRED_IMPROVEMENTS = ['settlement', 'worksite'];
+
+type Locale = { [key: string]: string | Locale };
+
+/**
+ * What the client has for showing the contents of a game, or null where its files could not be read.
+ */
+export interface ClientAssets {
+  /** Keys of the tables of `Camera.textures` */
+  textures: { tile: string[], unit: string[], improvements: string[] } | null;
+  /** Every locale, keyed by language */
+  locales: { [language: string]: Locale } | null;
+}
+
+/**
+ * Reads the keys of the texture tables out of the client's camera script, as the client has no way to share them with the server.
+ */
+const readTextureKeys = (source: string): ClientAssets['textures'] => {
+  const textures = { tile: [], unit: [], improvements: [] };
+  const tablePattern = /\b(tile|unit|improvements): \{([^}]*)\}/g;
+  let table: RegExpExecArray | null;
+  while ((table = tablePattern.exec(source))) {
+    const keyPattern = /(\w+): this\.load(?:Overlay)?Texture\(/g;
+    let key: RegExpExecArray | null;
+    while ((key = keyPattern.exec(table[2]))) {
+      textures[table[1]].push(key[1]);
+    }
+  }
+  return textures;
+};
+
+export const loadClientAssets = async (): Promise<ClientAssets> => {
+  let textures: ClientAssets['textures'] = null;
+  try {
+    textures = readTextureKeys(await fs.readFile(path.join(CLIENT_DIRECTORY, 'camera.js'), { encoding: 'utf8' }));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+
+  let locales: ClientAssets['locales'] = null;
+  try {
+    locales = {};
+    for (const file of await fs.readdir(path.join(CLIENT_DIRECTORY, 'locales'))) {
+      if (!file.endsWith('.json')) continue;
+      const data = await fs.readFile(path.join(CLIENT_DIRECTORY, 'locales', file), { encoding: 'utf8' });
+      locales[file.slice(0, -'.json'.length)] = JSON.parse(data);
+    }
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+    locales = null;
+  }
+
+  return { textures, locales };
+};
+
+/**
+ * Looks up `key` the way the client's `translate` does.
+ */
+const hasLocaleKey = (locale: Locale, key: string): boolean => {
+  let value: string | Locale | undefined = locale;
+  for (const part of key.split('.')) {
+    value = typeof value === 'object' ? value[part] : undefined;
+  }
+  return typeof value === 'string';
+};
+
+/**
+ * Finds knowledges that are their own prerequisite, directly or through others, as those can never be researched.
+ */
+const findPrerequisiteCycles = (knowledges: RulesetData['knowledges']): string[] => {
+  const inCycle: string[] = [];
+  const visit = (name: string, path: string[]): boolean => {
+    if (path.includes(name)) return true;
+    return (knowledges[name]?.prerequisites ?? []).some(prerequisite => visit(prerequisite, [...path, name]));
+  };
+  for (const name in knowledges) {
+    if (visit(name, [])) inCycle.push(name);
+  }
+  return inCycle;
+};
+
+/**
+ * Cross-checks the tables of a ruleset against each other, the map generator and the client.
+ * @returns a description of every dangling reference or missing rule, or an empty list if there are none
+ */
+export const checkRuleset = (ruleset: Ruleset, client: ClientAssets): string[] => {
+  const data = ruleset.export();
+  const issues: string[] = [];
+
+  const trainingImprovements = (promotionClass: PromotionClass): string[] => Object.keys(data.improvements)
+    .filter(type => ruleset.improvement.trainableUnitClassTable[type]?.includes(promotionClass));
+  const researchableBranches = new Set<KnowledgeBranch>();
+  for (const type in ruleset.improvement.researchableKnowledgeBranchTable) {
+    ruleset.improvement.researchableKnowledgeBranchTable[type].forEach(branch => researchableBranches.add(branch));
+  }
+
+  // Knowledges
+  for (const name of findPrerequisiteCycles(data.knowledges)) {
+    issues.push(`knowledge ${name} is its own prerequisite, so it can never be researched`);
+  }
+  const unlockedUnits: { [unitType: string]: string } = {};
+  const unlockedImprovements: { [improvement: string]: string } = {};
+  for (const name in data.knowledges) {
+    const { branch, prerequisites, units, improvements } = data.knowledges[name];
+    for (const prerequisite of prerequisites) {
+      if (!(prerequisite in data.knowledges)) issues.push(`knowledge ${name} needs knowledge ${prerequisite}, which does not exist`);
+    }
+    if (!researchableBranches.has(ruleset.knowledgeTree[name].branch)) {
+      issues.push(`knowledge ${name} is in the ${branch} branch, which no improvement can research`);
+    }
+    for (const unitType of units ?? []) {
+      if (!(unitType in data.units)) issues.push(`knowledge ${name} unlocks unit ${unitType}, which does not exist`);
+      unlockedUnits[unitType] = name;
+    }
+    for (const type of improvements ?? []) {
+      if (!(type in data.improvements)) issues.push(`knowledge ${name} unlocks improvement ${type}, which does not exist`);
+      unlockedImprovements[type] = name;
+    }
+  }
+
+  // Units
+  for (const unitType of REQUIRED_UNITS) {
+    if (!(unitType in data.units)) issues.push(`unit ${unitType} is missing, but every civ starts with one`);
+  }
+  for (const unitType in data.units) {
+    const { attackRange, cost } = data.units[unitType];
+    if (ruleset.unit.promotionClassTable[unitType] === PromotionClass.RANGED && attackRange === undefined) {
+      issues.push(`unit ${unitType} is ranged but has no attack range`);
+    }
+    const knowledge = unlockedUnits[unitType];
+    if (knowledge) {
+      if (!cost) issues.push(`unit ${unitType} is unlocked by knowledge ${knowledge} but has no training cost`);
+      if (trainingImprovements(ruleset.unit.promotionClassTable[unitType]).length === 0) {
+        issues.push(`unit ${unitType} is unlocked by knowledge ${knowledge} but no improvement can train ${data.units[unitType].promotionClass} units`);
+      }
+    } else if (!REQUIRED_UNITS.includes(unitType)) {
+      issues.push(`unit ${unitType} is not unlocked by any knowledge, so it can never be trained`);
+    }
+  }
+
+  // Improvements
+  for (const type of REQUIRED_IMPROVEMENTS) {
+    if (!(type in data.improvements)) issues.push(`improvement ${type} is missing, but the game builds it by itself`);
+  }
+  for (const type in data.improvements) {
+    const knowledge = unlockedImprovements[type];
+    if (knowledge && !data.improvements[type].constructionCost) {
+      issues.push(`improvement ${type} is unlocked by knowledge ${knowledge} but has no construction cost`);
+    }
+  }
+
+  // Tiles
+  const generatedTileTypes = new Set(GENERATED_TILE_TYPES.map(({ type }) => type));
+  for (const type of generatedTileTypes) {
+    if (!(type in data.tiles)) issues.push(`tile ${type} is placed by the map generator but has no movement cost`);
+  }
+  for (const { type, vegetation: [, improvement] } of GENERATED_TILE_TYPES) {
+    if (improvement === null) continue;
+    if (!(improvement in data.improvements)) {
+      issues.push(`improvement ${improvement} grows on ${type} tiles but does not exist`);
+    } else if (!data.improvements[improvement].natural) {
+      issues.push(`improvement ${improvement} grows on ${type} tiles but is not natural`);
+    }
+  }
+
+  // Client
+  const shown = {
+    unit: Object.keys(data.units),
+    improvement: Object.keys(data.improvements),
+    knowledge: Object.keys(data.knowledges),
+    tile: [...new Set([...Object.keys(data.tiles), ...generatedTileTypes])],
+  };
+  if (client.textures) {
+    for (const unitType of shown.unit) {
+      if (!client.textures.unit.includes(unitType)) issues.push(`unit ${unitType} has no client texture`);
+    }
+    for (const type of shown.improvement) {
+      if (!client.textures.improvements.includes(type)) issues.push(`improvement ${type} has no client texture`);
+    }
+    for (const type of shown.tile) {
+      if (!client.textures.tile.includes(type)) issues.push(`tile ${type} has no client texture`);
+    }
+  } else {
+    issues.push(`client textures were not checked, as ${path.join(CLIENT_DIRECTORY, 'camera.js')} could not be found`);
+  }
+  if (client.locales) {
+    for (const language in client.locales) {
+      for (const kind in shown) {
+        for (const name of shown[kind]) {
+          if (!hasLocaleKey(client.locales[language], `${kind}.${name}`)) issues.push(`${kind} ${name} has no ${language} locale key ${kind}.${name}`);
+        }
+      }
+    }
+  } else {
+    issues.push(`locale keys were not checked, as ${path.join(CLIENT_DIRECTORY, 'locales')} could not be found`);
+  }
+
+  return issues;
+};
+
+/**
+ * Checks every ruleset in the ruleset directory.
+ * @returns the issues of each ruleset, keyed by ruleset name
+ */
+export const checkAllRulesets = async (): Promise<{ [name: string]: string[] }> => {
+  const client = await loadClientAssets();
+  const results: { [name: string]: string[] } = {};
+  for (const name of await Ruleset.list()) {
+    try {
+      results[name] = checkRuleset(await Ruleset.load(name), client);
+    } catch (err) {
+      if (!(err instanceof InvalidRulesetError)) throw err;
+      results[name] = [err.message];
+    }
+  }
+  return results;
+};
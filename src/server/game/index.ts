@@ -1,49 +1,201 @@
 import * as fs from 'node:fs/promises';
 import * as path from 'path';
+import * as WebSocket from 'ws';
 
 import { SAVE_LOCATION } from '../config';
 
-import { World } from './world';
+import { Coords, World } from './world';
 import { Player } from './player';
-import { Map } from './map';
-import { EventMsg, PlayerData } from '../utils';
+import { Spectator } from './spectator';
+import { Chat, ChatMessage } from './chat';
+import { AIController } from './ai';
+import { leaderTemplates } from './leader';
+import { Journal } from './journal';
+import { SAVE_FORMAT_VERSION, upgradeSave } from './saves';
+import { DEFAULT_RULESET, InvalidRulesetError, Ruleset, RULESET_NAME_PATTERN } from './ruleset';
+import { GameResult, VictoryCondition, VictorySettings, VICTORY_CONDITIONS } from './victory';
+import { StatsHistory } from './stats';
+import { Map, MapOptions } from './map';
+import { PerlinWorldGenerator } from './map/generator';
+import { MapSync } from './map/sync';
+import { Event, EventMsg, PlayerData } from '../utils';
+import { PasswordHash } from '../auth';
+import { writeFileAtomic } from '../utils/files';
+import { metrics } from '../metrics';
+import { DisconnectPolicy, TurnMode } from './turns';
 
-interface MetaData {
+const AUTOSAVE_DIRECTORY = path.join(SAVE_LOCATION, 'autosaves');
+const DEFAULT_AUTOSAVE_INTERVAL = 1; // turns
+const DEFAULT_AUTOSAVE_KEEP = 5;
+const MAX_PLAYER_NAME_LENGTH = 32;
+
+/**
+ * The settings a new game can be created with, all of which have defaults.
+ */
+export type GameOptions = {
+  seed?: number,
+  gameName?: string,
+  disconnectPolicy?: DisconnectPolicy,
+  autosaveInterval?: number,
+  autosaveKeep?: number,
+  turnMode?: TurnMode,
+  turnTimeLimit?: number,
+  turnTimeBonus?: number,
+  aiFillsEmptySlots?: boolean,
+  /** Name of the ruleset file the game is played by */
+  ruleset?: string,
+  victoryConditions?: VictoryCondition[],
+  /** Defaults to every knowledge in the ruleset */
+  scienceVictoryKnowledges?: string[],
+  turnLimit?: number,
+};
+
+/**
+ * Each civ needs a leader of its own, so there can be no more players than there are leaders.
+ */
+export const MAX_PLAYER_COUNT = leaderTemplates.length;
+
+/**
+ * @returns the reason a game cannot have `playerCount` players, or null if it can
+ */
+export const checkPlayerCount = (playerCount: number): string | null => {
+  if (!Number.isInteger(playerCount)) return 'The number of players must be a whole number';
+  if (playerCount < 1) return 'A game needs at least one player';
+  if (playerCount > MAX_PLAYER_COUNT) return `A game can have at most ${MAX_PLAYER_COUNT} players`;
+  return null;
+};
+
+/**
+ * @returns the reason a game cannot be created with `options`, or null if it can
+ */
+export const checkGameOptions = (options: GameOptions): string | null => {
+  if ((options.autosaveInterval ?? 0) < 0 || (options.autosaveKeep ?? 1) < 1) {
+    return 'Autosaves must be made every 0 or more turns, keeping at least 1';
+  }
+  if ((options.turnTimeLimit ?? 0) < 0 || (options.turnTimeBonus ?? 0) < 0) {
+    return 'Turn time limits cannot be negative';
+  }
+  if (options.ruleset !== undefined && !RULESET_NAME_PATTERN.test(options.ruleset)) {
+    return 'Ruleset names may only contain letters, digits, underscores and hyphens';
+  }
+  if ((options.turnLimit ?? 0) < 0) {
+    return 'The turn limit cannot be negative';
+  }
+  return null;
+};
+
+export interface MetaData extends VictorySettings {
   gameName: string,
   ownerName?: string,
   playerCount: number,
   playersConnected: number,
+  disconnectPolicy: DisconnectPolicy,
+  /** Number of turns between autosaves, or 0 to disable autosaving */
+  autosaveInterval: number,
+  /** Number of autosaves to keep around for rolling back to */
+  autosaveKeep: number,
+  turnMode: TurnMode,
+  /** Seconds a civ has to finish its turn before it is finished automatically, or 0 for no limit */
+  turnTimeLimit: number,
+  /** Seconds added to the time limit for every turn played so far, as later turns have more to manage */
+  turnTimeBonus: number,
+  /** Whether the game can start before every civ has a player, with the AI playing the rest */
+  aiFillsEmptySlots: boolean,
+  /** How the game ended, or null while it goes on. Finished games can be looked at, but not played. */
+  result: GameResult | null,
 }
 
+export interface AutosaveData {
+  turn: number,
+  /** ms since epoch */
+  time: number,
+}
+
+export type GameListing = MetaData & {
+  players: {[playerName: string]: PlayerData},
+  spectatorCount: number,
+  hasPassword: boolean,
+};
+
 export class Game {
   world: World;
   players: { [playerName: string]: Player };
+  spectators: { [username: string]: Spectator };
+  chat: Chat;
+  password: PasswordHash | null;
   playerCount: number;
   metaData: MetaData;
   hasStarted: boolean;
+  turn: number;
+  /** Name of the file the game is saved to, or null until it is registered */
+  saveFile: string | null;
+  /** Everything that happened since the game started, or null if it has not started yet */
+  journal: Journal | null;
+  /** ms since epoch at which the current turn is finished automatically, or null if it has no time limit */
+  private turnDeadline: number | null;
+  private turnTimer: NodeJS.Timeout | null;
+
+  constructor(map?: Map, options?: GameOptions & {
+    playerCount: number,
+    ownerName?: string,
+  }) {
+    this.saveFile = null;
+    this.journal = null;
+    this.turnDeadline = null;
+    this.turnTimer = null;
 
-  constructor(map?: Map, options?: { playerCount: number, ownerName?: string, gameName?: string }) {
     if (!(map && options)) {
       // If no arguments are provided, this is part of a call to Game.import
       return
     }
-    const { playerCount, ownerName } = options;
+    const {
+      playerCount, seed, ownerName, disconnectPolicy, autosaveInterval, autosaveKeep, turnMode, turnTimeLimit, turnTimeBonus, aiFillsEmptySlots,
+      victoryConditions, scienceVictoryKnowledges, turnLimit,
+    } = options;
     let { gameName } = options;
     if (!gameName) gameName = ownerName ? `${ownerName}'s game` : 'Untitled Game';
 
-    this.world = new World(map, playerCount);
+    this.world = new World(map, playerCount, seed);
 
     this.players = {};
+    this.spectators = {};
+    this.chat = new Chat();
+    this.password = null;
     this.playerCount = playerCount;
 
     this.metaData = {
       gameName,
       ownerName,
       playerCount,
-      playersConnected: Object.keys(this.players).length,
+      playersConnected: 0,
+      disconnectPolicy: disconnectPolicy ?? 'autoFinish',
+      autosaveInterval: autosaveInterval ?? DEFAULT_AUTOSAVE_INTERVAL,
+      autosaveKeep: autosaveKeep ?? DEFAULT_AUTOSAVE_KEEP,
+      turnMode: turnMode ?? 'simultaneous',
+      turnTimeLimit: turnTimeLimit ?? 0,
+      turnTimeBonus: turnTimeBonus ?? 0,
+      aiFillsEmptySlots: aiFillsEmptySlots ?? false,
+      victoryConditions: victoryConditions ?? [...VICTORY_CONDITIONS],
+      scienceVictoryKnowledges: scienceVictoryKnowledges ?? map.ruleset.getKnowledgeList().map(({ name }) => name),
+      turnLimit: turnLimit ?? 0,
+      result: null,
     };
 
     this.hasStarted = false;
+    this.turn = 0;
+  }
+
+  /**
+   * Creates a game on a newly generated map. The map and the game's rolls come from the same seed, so a seed always makes the same game.
+   * @throws InvalidRulesetError if the ruleset in `options` cannot be loaded
+   */
+  static async generate(playerCount: number, mapOptions: MapOptions, options: GameOptions & { ownerName?: string }): Promise<Game> {
+    const ruleset = await Ruleset.load(options.ruleset ?? DEFAULT_RULESET);
+    for (const name of options.scienceVictoryKnowledges ?? []) {
+      if (!(name in ruleset.knowledgeTree)) throw new InvalidRulesetError(`ruleset ${ruleset.name} has no knowledge named "${name}"`);
+    }
+    const seed = options.seed ?? Math.floor(Math.random() * 9007199254740991);
+    return new Game(new PerlinWorldGenerator(seed, mapOptions).generate(ruleset), { ...options, playerCount, seed });
   }
 
   export() {
@@ -54,40 +206,544 @@ export class Game {
     }
 
     return {
+      formatVersion: SAVE_FORMAT_VERSION,
+      // The whole ruleset is saved, so that the game keeps its rules even if the ruleset file changes or goes away
+      ruleset: this.world.map.ruleset.export(),
       world: this.world.export(),
       players: exportedPlayers,
+      chat: this.chat.export(),
+      password: this.password,
       playerCount: this.playerCount,
       metaData: this.metaData,
       hasStarted: this.hasStarted,
+      turn: this.turn,
     };
   }
 
+  /**
+   * @param data save data of any format version
+   * @throws InvalidSaveError if `data` is not a valid save
+   */
   static import(data: any): Game {
+    data = upgradeSave(data);
     const game = new Game();
-    game.world = World.import(data.world);
+    game.world = World.import(data.world, new Ruleset(data.ruleset));
     game.players = {};
     for (const playerName in data.players) {
       const playerData = data.players[playerName];
       game.players[playerName] = Player.import(playerData);
     }
+    game.spectators = {};
+    game.chat = Chat.import(data.chat);
+    game.password = data.password;
     game.playerCount = data.playerCount;
-    game.metaData = data.metaData;
+    game.metaData = { ...data.metaData, playersConnected: 0 };
     game.hasStarted = data.hasStarted;
+    game.turn = data.turn;
     return game;
   }
 
   async save() {
-    await fs.writeFile(path.join(SAVE_LOCATION, `${this.metaData.gameName}.json`), JSON.stringify(this.export()));
+    if (!this.saveFile) return;
+    await writeFileAtomic(path.join(SAVE_LOCATION, `${this.saveFile}.json`), JSON.stringify(this.export()));
+    await this.saveJournal();
   }
 
-  static async load(saveFile): Promise<Game> {
+  static async load(saveFile: string): Promise<Game> {
     const data = await fs.readFile(path.join(SAVE_LOCATION, `${saveFile}.json`), { encoding: 'utf8' });
-    return Game.import(JSON.parse(data));
+    const game = Game.import(JSON.parse(data));
+    game.saveFile = saveFile;
+    game.journal = await Game.loadJournal(saveFile);
+    return game;
+  }
+
+  /**
+   * The journal is kept next to the save rather than in it, since it only ever grows and autosaves need not copy it.
+   */
+  private async saveJournal(): Promise<void> {
+    if (!this.saveFile || !this.journal) return;
+    await writeFileAtomic(path.join(SAVE_LOCATION, `${this.saveFile}.journal`), JSON.stringify(this.journal.export()));
+  }
+
+  /**
+   * @returns the journal of the game saved to `saveFile`, or null if it has none
+   */
+  static async loadJournal(saveFile: string): Promise<Journal | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(path.join(SAVE_LOCATION, `${saveFile}.journal`), { encoding: 'utf8' });
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+      return null;
+    }
+    return Journal.import(JSON.parse(data));
+  }
+
+  private getAutosaveFile(turn: number): string {
+    return path.join(AUTOSAVE_DIRECTORY, this.saveFile as string, `turn-${turn}.json`);
+  }
+
+  /**
+   * @returns the autosaves this game can be rolled back to, oldest first
+   */
+  async listAutosaves(): Promise<AutosaveData[]> {
+    if (!this.saveFile) return [];
+
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(AUTOSAVE_DIRECTORY, this.saveFile));
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+      return [];
+    }
+
+    const autosaves: AutosaveData[] = [];
+    for (const file of files) {
+      const match = file.match(/^turn-(\d+)\.json$/);
+      if (!match) continue;
+      const turn = Number(match[1]);
+      const { mtimeMs } = await fs.stat(this.getAutosaveFile(turn));
+      autosaves.push({ turn, time: Math.floor(mtimeMs) });
+    }
+    return autosaves.sort((a, b) => a.turn - b.turn);
+  }
+
+  /**
+   * Saves the game, and keeps a copy of the save to roll back to. Only the newest `autosaveKeep` copies are kept.
+   */
+  async autosave(): Promise<void> {
+    if (!this.saveFile) return;
+
+    this.journal?.record({ type: 'autosave', turn: this.turn });
+    const data = JSON.stringify(this.export());
+    await writeFileAtomic(path.join(SAVE_LOCATION, `${this.saveFile}.json`), data);
+    await this.saveJournal();
+
+    await fs.mkdir(path.join(AUTOSAVE_DIRECTORY, this.saveFile), { recursive: true });
+    await writeFileAtomic(this.getAutosaveFile(this.turn), data);
+
+    const autosaves = await this.listAutosaves();
+    for (const { turn } of autosaves.slice(0, -this.metaData.autosaveKeep)) {
+      await fs.rm(this.getAutosaveFile(turn), { force: true });
+    }
+  }
+
+  /**
+   * Loads the autosave of `saveFile` made on `turn`. The returned game takes the place of the original, saving over it.
+   */
+  static async loadAutosave(saveFile: string, turn: number): Promise<Game> {
+    const data = await fs.readFile(path.join(AUTOSAVE_DIRECTORY, saveFile, `turn-${turn}.json`), { encoding: 'utf8' });
+    const game = Game.import(JSON.parse(data));
+    game.saveFile = saveFile;
+
+    // Whatever happened after the autosave is undone, so it is cut from the journal too
+    const journal = await Game.loadJournal(saveFile);
+    if (journal?.rewindTo(turn)) {
+      game.journal = journal;
+    } else if (game.hasStarted) {
+      game.startJournal();
+    }
+    return game;
+  }
+
+  /**
+   * Deletes every autosave of `saveFile`, such as when its game is deleted.
+   */
+  static async deleteAutosaves(saveFile: string): Promise<void> {
+    await fs.rm(path.join(AUTOSAVE_DIRECTORY, saveFile), { recursive: true, force: true });
+  }
+
+  /**
+   * Starts a new journal from the game as it is now, such as when the game starts or there is no record of how it got here.
+   */
+  startJournal(): void {
+    // A copy, as the export shares some objects with the game
+    this.journal = new Journal(JSON.parse(JSON.stringify(this.export())));
+  }
+
+  private updatePlayersConnected(): void {
+    const playersConnected = Object.values(this.players).filter(player => player.isConnected()).length;
+    this.metaData = { ...this.metaData, playersConnected };
   }
 
   connectPlayer(username: string, player: Player) {
     this.players[username] = player;
-    this.metaData = { ...this.metaData, playersConnected: Object.keys(this.players).length };
+    this.updatePlayersConnected();
+  }
+
+  reconnectPlayer(username: string, connection: WebSocket): void {
+    const player = this.players[username];
+    player.reset(connection);
+
+    // Hotseat players pick up where they left off, on whichever civ is playing
+    const activeCivID = this.hasStarted && this.metaData.turnMode === 'sequential' ? this.getActiveCivID() : null;
+    if (activeCivID !== null && this.getPlayerByCivID(activeCivID)?.hotseatHost === username) {
+      this.handOffHotseat(activeCivID);
+    }
+
+    this.updatePlayersConnected();
+    this.sendToAll({
+      update: [
+        ['playerReconnected', [username, player.civID]],
+      ],
+    });
+  }
+
+  disconnectPlayer(username: string): void {
+    const player = this.getPlayer(username);
+    player.reset(null);
+    this.updatePlayersConnected();
+    this.sendToAll({
+      update: [
+        ['playerDisconnected', [username, player.civID]],
+      ],
+    });
+
+    // The disconnected civ may have been the last one the turn was waiting on
+    if (this.hasStarted) {
+      this.checkTurnFinished();
+    }
+  }
+
+  private isCivWaitedOn(civID: number): boolean {
+    const civ = this.world.civs[civID];
+    if (!civ.turnActive || civ.turnFinished || civ.eliminated) return false;
+
+    const player = this.getPlayerByCivID(civID);
+    if (!player) return false;
+    if (player.isConnected()) return true;
+    return this.metaData.disconnectPolicy === 'wait';
+  }
+
+  /**
+   * @returns whether someone is at the controls of `player`, which for hotseat players means that their host is connected
+   */
+  private isPlayerPresent(player: Player): boolean {
+    const hostName = player.hotseatHost ?? Object.keys(this.players).find(name => this.players[name] === player);
+    return hostName !== undefined && this.getPlayer(hostName).isConnected();
+  }
+
+  private isCivAIControlled(civID: number): boolean {
+    const player = this.getPlayerByCivID(civID);
+    if (!player) return this.metaData.aiFillsEmptySlots;
+    return this.metaData.disconnectPolicy === 'ai' && !this.isPlayerPresent(player);
+  }
+
+  private getAICivIDs(): number[] {
+    const aiCivIDs: number[] = [];
+    this.forEachCivID((civID) => {
+      if (this.isCivAIControlled(civID) && !this.world.civs[civID].eliminated) aiCivIDs.push(civID);
+    });
+    return aiCivIDs;
+  }
+
+  /**
+   * @returns whether the game has enough players to start
+   */
+  isFull(): boolean {
+    return this.metaData.aiFillsEmptySlots || Object.keys(this.players).length === this.playerCount;
+  }
+
+  /**
+   * @returns whether nobody is connected to the game, either as a player or as a spectator
+   */
+  isEmpty(): boolean {
+    return this.metaData.playersConnected === 0 && Object.keys(this.spectators).length === 0;
+  }
+
+  /**
+   * @returns whether the game is over, after which it can no longer be played
+   */
+  isFinished(): boolean {
+    return this.metaData.result !== null;
+  }
+
+  /**
+   * @returns whether the civ `username` is playing as has been eliminated, after which they can only watch
+   */
+  isEliminated(username: string): boolean {
+    const player = this.getPlayer(username);
+    return player !== undefined && this.world.civs[player.civID].eliminated;
+  }
+
+  /**
+   * @returns the civ whose view of the map `player` is shown, which for eliminated civs is the whole map, as for spectators
+   */
+  private getPlayerView(player: Player): number | null {
+    return this.world.civs[player.civID].eliminated ? null : player.civID;
+  }
+
+  /**
+   * @returns the stats `username` may see. Those of other civs would give away what players cannot see,
+   * so players only get their own civ's until the game is over or their civ is eliminated,
+   * and spectators watching one civ's view only get that civ's until the game is over.
+   */
+  getStatsHistory(username: string): StatsHistory {
+    if (this.isFinished()) return this.world.stats.getHistory();
+
+    const spectator = this.spectators[username];
+    const player = spectator ? undefined : this.getPlayer(username);
+    const civID = spectator ? spectator.civID : player ? this.getPlayerView(player) : null;
+    return this.world.stats.getHistory(civID === null ? undefined : [civID]);
+  }
+
+  /**
+   * @returns whether `username` may rewatch the game. A replay would give away what players cannot see, so only the owner may until the game is over.
+   */
+  canReplay(username: string): boolean {
+    return this.journal !== null && (this.isFinished() || this.isOwner(username));
+  }
+
+  /**
+   * @returns whether `username` plays in the game, either as a player of their own or as the host of a hotseat player
+   */
+  hasSeat(username: string): boolean {
+    return username in this.players || Object.values(this.players).some(player => player.hotseatHost === username);
+  }
+
+  isOwner(username: string): boolean {
+    return this.metaData.ownerName === username;
+  }
+
+  setOwner(username: string): void {
+    this.metaData = { ...this.metaData, ownerName: username };
+    this.sendToAll({
+      update: [
+        ['ownerChanged', [username]],
+      ],
+    });
+  }
+
+  setPassword(password: PasswordHash | null): void {
+    this.password = password;
+  }
+
+  /**
+   * Removes a player from the game, freeing their civ for someone else to join as.
+   */
+  removePlayer(username: string): void {
+    const player = this.players[username];
+    if (player.hotseatHost !== null && player.isConnected()) {
+      player.handOffTo(this.players[player.hotseatHost]);
+    }
+
+    // Hotseat players cannot play without the connection they share
+    const removedNames = [username, ...Object.keys(this.players).filter(name => this.players[name].hotseatHost === username)];
+    const removedCivIDs = removedNames.map(name => this.players[name].civID);
+    for (const name of removedNames) {
+      delete this.players[name];
+    }
+    this.updatePlayersConnected();
+
+    if (this.hasStarted) {
+      this.checkTurnFinished();
+    } else {
+      for (const civID of removedCivIDs) {
+        this.world.unsetCivLeader(civID);
+      }
+      this.sendToAll({
+        update: [
+          ['leaderPool', [ ...this.world.getLeaderPool(), this.getPlayersData() ]],
+        ],
+      });
+    }
+  }
+
+  /**
+   * Adds a hotseat player to a game that has not started yet, who plays on `hostName`'s connection.
+   * @returns a reason the player cannot be added, or null on success
+   */
+  addHotseatPlayer(hostName: string, name: string): string | null {
+    if (this.hasStarted) return 'The game has already started';
+    if (this.metaData.turnMode !== 'sequential') return 'Hotseat games must use sequential turns';
+    if (!name || name.length > MAX_PLAYER_NAME_LENGTH) return `Names must be 1 to ${MAX_PLAYER_NAME_LENGTH} characters long`;
+    if (name in this.players) return 'That name is taken';
+
+    const civID = this.newPlayerCivID(name);
+    if (civID === null) return 'The game is full';
+
+    this.players[name] = new Player(civID, null, hostName);
+    this.sendToAll({
+      update: [
+        ['leaderPool', [ ...this.world.getLeaderPool(), this.getPlayersData() ]],
+      ],
+    });
+    return null;
+  }
+
+  /**
+   * Hands `username`'s connection to another of their hotseat players before the game starts, so that they can pick a leader.
+   * @returns a reason the connection cannot be handed over, or null on success
+   */
+  switchHotseatPlayer(username: string, name: string): string | null {
+    if (this.hasStarted) return 'The game has already started';
+    const player = this.players[name];
+    if (!player || (name !== username && player.hotseatHost !== username)) return 'That is not one of your hotseat players';
+
+    this.handOffHotseat(player.civID);
+    return null;
+  }
+
+  /**
+   * Passes a shared hotseat connection to the player of `civID`, and tells the client to pass the screen on too.
+   */
+  private handOffHotseat(civID: number): void {
+    const playerName = Object.keys(this.players).find(name => this.players[name].civID === civID);
+    if (playerName === undefined) return;
+
+    const player = this.players[playerName];
+    const holder = this.getPlayer(player.hotseatHost ?? playerName);
+    if (holder === player || !holder.isConnected()) return;
+
+    holder.handOffTo(player);
+    player.send({
+      update: [
+        ['hotseatHandoff', [playerName, civID]],
+      ],
+    });
+  }
+
+  /**
+   * Changes the number of civs in a game that has not started yet.
+   * @returns a reason the player count cannot be changed, or null on success
+   */
+  setPlayerCount(playerCount: number): string | null {
+    if (this.hasStarted) return 'The game has already started';
+    const reason = checkPlayerCount(playerCount);
+    if (reason) return reason;
+    if (Object.values(this.players).some(player => player.civID >= playerCount)) {
+      return 'A player has already joined as one of the removed civs';
+    }
+
+    while (this.playerCount < playerCount) {
+      this.world.addCiv();
+      this.playerCount++;
+    }
+    while (this.playerCount > playerCount) {
+      this.world.removeLastCiv();
+      this.playerCount--;
+    }
+    this.metaData = { ...this.metaData, playerCount };
+    return null;
+  }
+
+  /**
+   * Ends the turn if no civ is still being waited on.
+   */
+  checkTurnFinished(): void {
+    if (this.isFinished()) return;
+
+    if (this.metaData.turnMode === 'sequential') {
+      const civID = this.getActiveCivID();
+      if (civID !== null && this.isCivWaitedOn(civID)) return;
+      this.advanceSequentialTurn();
+      return;
+    }
+
+    for (let civID = 0; civID < this.playerCount; civID++) {
+      if (this.isCivWaitedOn(civID)) return;
+    }
+
+    this.endTurn();
+  }
+
+  /**
+   * @returns the civ whose turn it is in sequential mode, or null if there is none
+   */
+  private getActiveCivID(): number | null {
+    for (let civID = 0; civID < this.playerCount; civID++) {
+      if (this.world.civs[civID].turnActive) return civID;
+    }
+    return null;
+  }
+
+  /**
+   * Ends the active civ's turn and begins the next civ's, skipping over civs that would not be waited on.
+   * Once every civ has played, the end-of-turn updates are run and the first civ plays again.
+   */
+  private advanceSequentialTurn(): void {
+    let civID = this.getActiveCivID();
+    if (civID !== null) this.endTurnForCiv(civID);
+    let roundEnded = false;
+
+    // Give up after a full round, so that a game nobody is waiting on cannot loop forever
+    for (let i = 0; i < this.playerCount; i++) {
+      if (civID === null) {
+        civID = 0;
+      } else if (++civID === this.playerCount) {
+        metrics.timeEndTurn(() => this.endRound());
+        roundEnded = true;
+        if (this.isFinished()) break;
+        civID = 0;
+      }
+
+      if (!this.getPlayerByCivID(civID) || this.world.civs[civID].eliminated) continue;
+      this.handOffHotseat(civID);
+      this.beginTurnForCiv(civID);
+      if (this.isCivWaitedOn(civID)) break;
+      this.endTurnForCiv(civID);
+    }
+
+    if (roundEnded) this.autosaveIfDue();
+    if (!this.isFinished()) this.startTurnTimer();
+  }
+
+  private getTurnDuration(): number {
+    const { turnTimeLimit, turnTimeBonus } = this.metaData;
+    if (turnTimeLimit <= 0) return 0;
+    return (turnTimeLimit + turnTimeBonus * this.turn) * 1000;
+  }
+
+  /**
+   * Starts counting down the time limit of the turn that just began, and tells everyone how long it is.
+   */
+  private startTurnTimer(): void {
+    this.stopTurnTimer();
+
+    const duration = this.getTurnDuration();
+    if (duration > 0) {
+      this.turnDeadline = Date.now() + duration;
+      this.turnTimer = setTimeout(() => this.expireTurn(), duration);
+    }
+
+    this.sendToAll({
+      update: [
+        this.getTurnTimerUpdate(),
+      ],
+    });
+  }
+
+  /**
+   * Stops the turn timer, such as when the game is unloaded. It is restarted when a player rejoins.
+   */
+  stopTurnTimer(): void {
+    if (this.turnTimer) clearTimeout(this.turnTimer);
+    this.turnTimer = null;
+    this.turnDeadline = null;
+  }
+
+  private getTurnTimerUpdate(): Event {
+    return ['turnTimer', [this.turnDeadline === null ? null : Math.max(this.turnDeadline - Date.now(), 0)]];
+  }
+
+  /**
+   * Finishes the turn of every civ that ran out of time.
+   */
+  private expireTurn(): void {
+    this.turnTimer = null;
+    this.turnDeadline = null;
+    this.forceEndTurn();
+  }
+
+  /**
+   * Finishes the turn of every civ still playing it, whether or not its player is done, such as at an admin's request.
+   */
+  forceEndTurn(): void {
+    this.forEachCivID((civID) => {
+      const civ = this.world.civs[civID];
+      if (civ.turnActive) civ.turnFinished = true;
+    });
+    this.checkTurnFinished();
   }
 
   startGame(player?: Player): void {
@@ -99,11 +755,53 @@ export class Game {
             ['civData', [ this.world.getAllCivsData() ]],
           ],
         });
-        this.resumeTurnForCiv(player.civID);
+
+        if (this.isFinished()) {
+          // There are no more turns to play, but the player can still look around
+          const mapDelta = player.mapSync.delta(this.world.map, player.civID);
+          player.send({
+            update: [
+              ...(mapDelta ? [mapDelta] : []),
+              this.getGameOverUpdate(),
+            ],
+          });
+          return;
+        }
+
+        // Saves taken between two rounds, as autosaves used to be, have no civ whose turn is under way
+        const roundBegun = Object.values(this.world.civs).some(({ turnActive }) => turnActive);
+        if (!roundBegun) this.beginRound();
+
+        const civ = this.world.civs[player.civID];
+        if (civ.eliminated) {
+          this.showEliminatedView(player);
+        } else if (roundBegun || !civ.turnActive) {
+          // Beginning the round already sent the player their turn if it began one for them
+          this.resumeTurnForCiv(player.civID);
+        }
+
+        if (this.turnDeadline === null && this.getTurnDuration() > 0) {
+          this.startTurnTimer();
+        } else {
+          player.send({
+            update: [
+              this.getTurnTimerUpdate(),
+            ],
+          });
+        }
       }
     } else {
       this.hasStarted = true;
 
+      // Civs left to the AI still need a leader
+      this.forEachCivID((civID) => {
+        if (this.world.civs[civID].leader) return;
+        const leaderID = Object.keys(this.world.leaderPool).find(id => !this.world.leaderPool[id].isTaken());
+        if (leaderID !== undefined) this.world.setCivLeader(civID, Number(leaderID));
+      });
+
+      this.startJournal();
+
       this.sendToAll({
         update: [
           ['beginGame', [ [this.world.map.width, this.world.map.height], this.playerCount ]],
@@ -111,27 +809,129 @@ export class Game {
         ],
       });
 
-      this.forEachCivID((civID: number) => {
-        this.sendToCiv(civID, {
-          update: [
-            ['setMap', [this.world.map.getCivMap(civID)]],
-          ],
+      this.forEachSpectator((spectator: Spectator) => {
+        this.resumeSpectating(spectator);
+      });
+
+      if (this.metaData.turnMode === 'sequential') {
+        this.advanceSequentialTurn();
+      } else {
+        this.forEachCivID((civID: number) => {
+          this.beginTurnForCiv(civID);
         });
-        this.beginTurnForCiv(civID);
+        this.startTurnTimer();
+      }
+    }
+  }
+
+  addSpectator(username: string, connection: WebSocket, civID: number | null): void {
+    const spectator = new Spectator(civID, connection);
+    this.spectators[username] = spectator;
+    spectator.send({
+      update: [
+        ['spectating', [civID]],
+        ['chatHistory', [this.chat.getVisibleMessages(null)]],
+      ],
+    });
+
+    if (this.hasStarted) {
+      spectator.send({
+        update: [
+          ['beginGame', [ [this.world.map.width, this.world.map.height], this.playerCount ]],
+          ['civData', [ this.world.getAllCivsData() ]],
+          this.isFinished() ? this.getGameOverUpdate() : this.getTurnTimerUpdate(),
+        ],
+      });
+      this.resumeSpectating(spectator);
+    }
+  }
+
+  removeSpectator(username: string): void {
+    delete this.spectators[username];
+  }
+
+  setSpectatorView(username: string, civID: number | null): void {
+    const spectator = this.spectators[username];
+    spectator.civID = civID;
+    spectator.mapSync = new MapSync();
+    spectator.send({
+      update: [
+        ['spectating', [civID]],
+      ],
+    });
+
+    if (this.hasStarted) {
+      this.resumeSpectating(spectator);
+    }
+  }
+
+  private resumeSpectating(spectator: Spectator): void {
+    const mapDelta = spectator.mapSync.delta(this.world.map, spectator.civID);
+    if (mapDelta) {
+      spectator.send({
+        update: [mapDelta],
+      });
+    }
+  }
+
+  /**
+   * Resets the map of a player or spectator whose copy of it fell out of sync, so that it requests its chunks again.
+   */
+  resyncMap(username: string): void {
+    const recipient: Player | Spectator = this.spectators[username] ?? this.getPlayer(username);
+    recipient.send({
+      update: [recipient.mapSync.reset()],
+    });
+  }
+
+  /**
+   * Subscribes a player or spectator to the map chunks around their viewport, and sends any they did not have yet.
+   */
+  subscribeChunks(username: string, chunks: number[]): void {
+    const spectator = this.spectators[username];
+    const recipient: Player | Spectator = spectator ?? this.getPlayer(username);
+    const civID = spectator ? spectator.civID : this.getPlayerView(this.getPlayer(username));
+    const mapDelta = recipient.mapSync.subscribe(this.world.map, civID, chunks);
+    if (mapDelta) {
+      recipient.send({
+        update: [mapDelta],
       });
     }
   }
 
+  /**
+   * Begins the turns of the round the game is on, as happens once the previous round ends.
+   */
+  private beginRound(): void {
+    if (this.metaData.turnMode === 'sequential') {
+      this.advanceSequentialTurn();
+      return;
+    }
+
+    this.forEachPlayer((player: Player) => {
+      this.beginTurnForCiv(player.civID);
+    });
+    this.startTurnTimer();
+  }
+
   beginTurnForCiv(civID: number): void {
+    // Eliminated civs have nothing left to play
+    if (this.world.civs[civID].eliminated) return;
+    this.journal?.record({ type: 'beginTurn', civID });
     this.world.civs[civID].newTurn();
     this.world.updateCivTileVisibility(civID);
     this.resumeTurnForCiv(civID);
   }
 
   resumeTurnForCiv(civID: number): void {
+    const player = this.getPlayerByCivID(civID);
+    // Civs without a player are played by the AI
+    if (!player) return;
+
+    const mapDelta = player.mapSync.delta(this.world.map, civID);
     this.sendToCiv(civID, {
       update: [
-        ['setMap', [this.world.map.getCivMap(civID)]],
+        ...(mapDelta ? [mapDelta] : []),
         ['unitPositions', [this.world.getCivUnitPositions(civID)]],
         ['beginTurn', []],
       ],
@@ -139,6 +939,7 @@ export class Game {
   }
 
   endTurnForCiv(civID: number): void {
+    this.journal?.record({ type: 'endTurn', civID });
     this.world.civs[civID].endTurn();
     this.sendToCiv(civID, {
       update: [
@@ -148,37 +949,202 @@ export class Game {
   }
 
   endTurn(): void {
-    // end all players' turns
-    this.forEachPlayer((player: Player) => {
-      if (!player.isAI()) {
+    metrics.timeEndTurn(() => {
+      // end all players' turns
+      this.forEachPlayer((player: Player) => {
         this.endTurnForCiv(player.civID);
+      });
+
+      this.endRound();
+      if (!this.isFinished()) {
+        // begin all players' turns
+        this.forEachPlayer((player: Player) => {
+          this.beginTurnForCiv(player.civID);
+        });
       }
+      this.autosaveIfDue();
     });
 
+    if (!this.isFinished()) this.startTurnTimer();
+  }
+
+  /**
+   * Runs everything that happens once all civs have played their turn.
+   * @param aiCivIDs the civs the AI plays, which replays take from the journal since nobody is connected to them
+   */
+  endRound(aiCivIDs = this.getAICivIDs()): void {
     // Run AIs
+    const ai = new AIController(this.world);
+    for (const civID of aiCivIDs) {
+      const civ = this.world.civs[civID];
+      civ.newTurn();
+      this.world.updateCivTileVisibility(civID);
+      ai.playTurn(civID);
+      civ.endTurn();
+    }
+    this.sendUpdates();
 
     // Run end-of-turn updates
-    this.world.turn();
+    const result = this.world.turn(this.metaData, this.turn + 1);
 
-    // begin all players' turns
+    this.forEachSpectator((spectator: Spectator) => {
+      this.resumeSpectating(spectator);
+    });
+    // Eliminated players no longer begin turns, which is when players are otherwise sent the map
     this.forEachPlayer((player: Player) => {
-      if (!player.isAI()) {
-        this.beginTurnForCiv(player.civID);
-      }
+      if (!this.world.civs[player.civID].eliminated) return;
+      const mapDelta = player.mapSync.delta(this.world.map, null);
+      if (mapDelta) player.send({ update: [mapDelta] });
     });
+
+    this.turn++;
+    this.journal?.record({ type: 'endRound', turn: this.turn, aiCivIDs });
+    if (result) this.finish(result);
+  }
+
+  /**
+   * Autosaves the game if one is due on the turn it is on. This waits until the round has begun,
+   * as a save taken between two rounds has no civ whose turn is under way and could not be played on from.
+   */
+  private autosaveIfDue(): void {
+    const { autosaveInterval } = this.metaData;
+    if (autosaveInterval > 0 && this.turn % autosaveInterval === 0) {
+      this.autosave().catch((err) => console.error(err));
+    }
+  }
+
+  /**
+   * Ends the game with `result`, and tells everyone how it ended.
+   */
+  private finish(result: GameResult): void {
+    this.metaData = { ...this.metaData, result };
+    this.stopTurnTimer();
+    this.sendToAll({
+      update: [
+        this.getGameOverUpdate(),
+      ],
+    });
+  }
+
+  private getGameOverUpdate(): Event {
+    const { winner, reason } = this.metaData.result as GameResult;
+    return ['gameOver', [winner, reason]];
+  }
+
+  /**
+   * Gives `civID` a new unit of `type` on `coords`, such as at an admin's request.
+   * @returns the reason the unit could not be given, or null if it was
+   */
+  giveUnit(civID: number, type: string, coords: Coords): string | null {
+    if (!Number.isInteger(civID) || civID < 0 || civID >= this.playerCount) return `there is no civ #${civID}`;
+    if (!this.world.spawnUnit(type, civID, coords)) return `cannot place a unit of type "${type}" there`;
+
+    this.journal?.record({ type: 'giveUnit', civID, unitType: type, coords });
+    this.sendUpdates();
+    if (this.getPlayerByCivID(civID)) {
+      this.sendToCiv(civID, {
+        update: [
+          ['unitPositions', [this.world.getCivUnitPositions(civID)]],
+        ],
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Removes the unit on `coords`, whoever it belongs to, such as at an admin's request.
+   * @returns the reason no unit could be removed, or null if one was
+   */
+  removeUnitAt(coords: Coords): string | null {
+    const unit = this.world.map.isInBounds(coords) ? this.world.map.getTile(coords).unit : undefined;
+    if (!unit) return 'there is no unit there';
+
+    this.journal?.record({ type: 'removeUnit', coords });
+    this.world.removeUnit(unit);
+    this.sendUpdates();
+    return null;
+  }
+
+  sendChatMessage(message: ChatMessage): void {
+    this.chat.addMessage(message);
+
+    const msg: EventMsg = {
+      update: [
+        ['chatMessage', [message]],
+      ],
+    };
+    if (message.channel === 'private') {
+      this.sendToCiv(message.senderCivID as number, msg);
+      this.sendToCiv(message.recipientCivID as number, msg);
+    } else {
+      this.sendToAll(msg);
+    }
   }
 
   sendUpdates(): void {
     const updates = this.world.getUpdates();
-    this.forEachCivID((civID) => {
-      this.sendToCiv(civID, {
-        update: updates.map(updateFn => updateFn(civID)),//.filter(update => update),
+    this.forEachPlayer((player: Player) => {
+      if (!player.isConnected()) return;
+      player.send({
+        update: this.getRecipientUpdates(updates, player.mapSync, this.getPlayerView(player)),
       });
     });
+    this.forEachSpectator((spectator: Spectator) => {
+      spectator.send({
+        update: this.getRecipientUpdates(updates, spectator.mapSync, spectator.civID),
+      });
+    });
+
+    for (const civID of this.world.takeEliminatedCivs()) {
+      const player = this.getPlayerByCivID(civID);
+      if (player) this.showEliminatedView(player);
+    }
   }
 
+  /**
+   * Moves `player`, whose civ has been eliminated, to a spectator's view of the whole map.
+   */
+  private showEliminatedView(player: Player): void {
+    player.mapSync = new MapSync();
+    const mapDelta = player.mapSync.delta(this.world.map, null);
+    player.send({
+      update: [
+        ['spectating', [null]],
+        ...(mapDelta ? [mapDelta] : []),
+      ],
+    });
+  }
+
+  /**
+   * Evaluates `updates` for one recipient, folding every change to the map into a single `mapDelta` event.
+   */
+  private getRecipientUpdates(updates: { (civID: number | null): Event }[], mapSync: MapSync, civID: number | null): Event[] {
+    const changedCoords: Coords[] = [];
+    let mapChanged = false;
+    const events = updates.map(updateFn => updateFn(civID)).filter(([name, args]) => {
+      if (name === 'tileUpdate') {
+        changedCoords.push(args[0] as Coords);
+        return false;
+      }
+      if (name === 'mapUpdate') {
+        mapChanged = true;
+        return false;
+      }
+      return true;
+    });
+
+    if (!mapChanged && changedCoords.length === 0) return events;
+    const mapDelta = mapSync.delta(this.world.map, civID, mapChanged ? undefined : changedCoords);
+    return mapDelta ? [mapDelta, ...events] : events;
+  }
+
+  /**
+   * @returns the player `username` is currently playing as, which in hotseat mode is whichever of their players holds the connection
+   */
   getPlayer(username: string): Player {
-    return this.players[username];
+    const player = this.players[username];
+    if (!player || player.isConnected()) return player;
+    return Object.values(this.players).find(seat => seat.hotseatHost === username && seat.isConnected()) ?? player;
   }
 
   getPlayersData(): {[playerName: string]: PlayerData} {
@@ -189,26 +1155,38 @@ export class Game {
     return playersData;
   }
 
-  getMetaData(): MetaData & { players: {[playerName: string]: PlayerData} } {
-    return { ...this.metaData, players: this.getPlayersData() };
+  getMetaData(): GameListing {
+    return {
+      ...this.metaData,
+      players: this.getPlayersData(),
+      spectatorCount: Object.keys(this.spectators).length,
+      hasPassword: this.password !== null,
+    };
   }
 
   sendToAll(msg: EventMsg): void {
     for (const playerName in this.players) {
       const player = this.players[playerName];
-      player.send(JSON.stringify(msg));
+      player.send(msg);
     }
+    this.forEachSpectator((spectator: Spectator) => {
+      spectator.send(msg);
+    });
+  }
+
+  private getPlayerByCivID(civID: number): Player | undefined {
+    return Object.values(this.players).find(player => player.civID === civID);
   }
 
   sendToCiv(civID: number, msg: EventMsg): void {
-    const player = Object.values(this.players).find(player => player.civID === civID);
+    const player = this.getPlayerByCivID(civID);
 
     if (!player) {
       console.error("Error: Could not find player for Civilization #" + civID);
       return;
     }
 
-    player.send(JSON.stringify(msg));
+    player.send(msg);
   }
 
   forEachPlayer(callback: (player: Player) => void): void {
@@ -217,6 +1195,12 @@ export class Game {
     }
   }
 
+  forEachSpectator(callback: (spectator: Spectator) => void): void {
+    for (const username in this.spectators) {
+      callback(this.spectators[username]);
+    }
+  }
+
   newPlayerCivID(username: string): number | null {
     const freeCivs = {};
     for (let i = 0; i < this.playerCount; i++) {
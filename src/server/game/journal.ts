@@ -0,0 +1,63 @@
+import { Coords } from './world';
+
+export type JournalEntry =
+  /** An action a player sent, as it was accepted by `executeAction` */
+  { type: 'action', civID: number, action: string, args: unknown[] } |
+  { type: 'beginTurn', civID: number } |
+  { type: 'endTurn', civID: number } |
+  /** The end of a round, after which the game is on turn `turn`. `aiCivIDs` are the civs the AI played. */
+  { type: 'endRound', turn: number, aiCivIDs: number[] } |
+  /** Units an admin gave or removed, which no player action accounts for */
+  { type: 'giveUnit', civID: number, unitType: string, coords: Coords } |
+  { type: 'removeUnit', coords: Coords } |
+  /** Where the game was autosaved on turn `turn`, which rolling back to that autosave goes back to */
+  { type: 'autosave', turn: number };
+
+/**
+ * A record of everything that changed a game since it started, from which the game can be rebuilt and replayed.
+ * Turns do not end by themselves in a replay, since timers and connections are not part of it, so the journal records every turn boundary.
+ */
+export class Journal {
+  /** Save data of the game as it started, before any civ began its first turn */
+  initial: any;
+  entries: JournalEntry[];
+
+  constructor(initial: any) {
+    this.initial = initial;
+    this.entries = [];
+  }
+
+  record(entry: JournalEntry): void {
+    this.entries.push(entry);
+  }
+
+  /**
+   * Forgets everything after the last autosave of `turn`, such as when the game is rolled back to it.
+   * Journals that predate autosaves being recorded in them go back to the end of the round which ended on `turn` instead.
+   * @returns whether there was such a point to go back to
+   */
+  rewindTo(turn: number): boolean {
+    let index = -1;
+    for (let i = this.entries.length - 1; i >= 0 && index === -1; i--) {
+      const entry = this.entries[i];
+      if (entry.type === 'autosave' && entry.turn === turn) index = i;
+    }
+    if (index === -1) index = this.entries.findIndex(entry => entry.type === 'endRound' && entry.turn === turn);
+    if (index === -1) return false;
+    this.entries = this.entries.slice(0, index + 1);
+    return true;
+  }
+
+  export() {
+    return {
+      initial: this.initial,
+      entries: this.entries,
+    };
+  }
+
+  static import(data: any): Journal {
+    const journal = new Journal(data.initial);
+    journal.entries = data.entries;
+    return journal;
+  }
+}
@@ -40,7 +40,7 @@ export class Leader {
     leader.textColor = data.textColor;
     leader.secondaryColor = data.secondaryColor;
     leader.name = data.name;
-    leader.civID = null;
+    leader.civID = data.civID;
     return leader;
   }
 
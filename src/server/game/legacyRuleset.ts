@@ -0,0 +1,181 @@
+/**
+ * The classic rules exactly as they were when rulesets were introduced, which every game created before then was played by.
+ * The 6 -> 7 save migration gives old saves this copy rather than reading `rulesets/classic.json`,
+ * so that upgrading a save always gives the same result, whatever happens to that file later. Never edit it.
+ */
+export const CLASSIC_RULESET_V7 = {
+  name: 'classic',
+  units: {
+    settler: {
+      movement: 3,
+      movementClass: 'land',
+      promotionClass: 'civilian',
+      combatStats: [0, 1, 0],
+      cost: { production: 10 },
+    },
+    builder: {
+      movement: 3,
+      movementClass: 'land',
+      promotionClass: 'civilian',
+      combatStats: [0, 1, 0],
+      cost: { production: 5 },
+    },
+    scout: {
+      movement: 5,
+      movementClass: 'land',
+      promotionClass: 'recon',
+      combatStats: [5, 3, 20],
+      visionRange: 3,
+      cost: { production: 10 },
+    },
+    warrior: {
+      movement: 3,
+      movementClass: 'land',
+      promotionClass: 'melee',
+      combatStats: [12, 8, 10],
+      cost: { production: 15 },
+    },
+    slinger: {
+      movement: 3,
+      movementClass: 'land',
+      promotionClass: 'ranged',
+      combatStats: [10, 5, 12],
+      attackRange: 2,
+      cost: { production: 15 },
+    },
+    archer: {
+      movement: 3,
+      movementClass: 'land',
+      promotionClass: 'ranged',
+      combatStats: [15, 5, 12],
+      attackRange: 3,
+    },
+    spy: {
+      movement: 5,
+      movementClass: 'land',
+      promotionClass: 'recon',
+      combatStats: [5, 3, 20],
+      cost: { production: 20 },
+    },
+  },
+  defaultVisionRange: 2,
+  improvements: {
+    settlement: {
+      yield: { food: 2, production: 2 },
+      storeCap: { food: 20, production: 2 },
+      trainableUnitClasses: ['civilian'],
+    },
+    encampment: {
+      yield: { production: 1 },
+      storeCap: { food: 10, production: 1 },
+      trainableUnitClasses: ['melee', 'ranged', 'recon'],
+      constructionCost: { production: 1 },
+    },
+    campus: {
+      researchableKnowledgeBranches: ['offense', 'defense', 'civics', 'development'],
+      constructionCost: { production: 1 },
+    },
+    farm: {
+      yield: { food: 1 },
+      storeCap: { food: 20 },
+      constructionCost: { production: 10 },
+    },
+    forest: {
+      yield: { food: 1 },
+      natural: true,
+      height: 5,
+    },
+    worksite: {},
+  },
+  knowledges: {
+    start: {
+      branch: 'development',
+      cost: { science: 0 },
+      prerequisites: [],
+      units: ['settler', 'builder'],
+    },
+    food_0: {
+      branch: 'development',
+      cost: { science: 10 },
+      prerequisites: [],
+      improvements: ['farm'],
+    },
+    military_0: {
+      branch: 'offense',
+      cost: { science: 10 },
+      prerequisites: [],
+      units: ['warrior', 'slinger'],
+    },
+    recon_0: {
+      branch: 'offense',
+      cost: { science: 10 },
+      prerequisites: [],
+      units: ['scout'],
+    },
+    ranged_1: {
+      branch: 'offense',
+      cost: { science: 10 },
+      prerequisites: ['military_0'],
+      units: ['archer'],
+    },
+    science_1: {
+      branch: 'development',
+      cost: { science: 10 },
+      prerequisites: [],
+      improvements: ['campus'],
+    },
+    recon_1: {
+      branch: 'offense',
+      cost: { science: 10 },
+      prerequisites: ['recon_0', 'science_1'],
+      units: ['spy'],
+    },
+  },
+  tiles: {
+    ocean: {
+      movementCost: [0, 1],
+    },
+    frozen_ocean: {
+      movementCost: [0, 0],
+    },
+    river: {
+      movementCost: [4, 1],
+    },
+    frozen_river: {
+      movementCost: [3, 0],
+    },
+    grass_lowlands: {
+      movementCost: [1, 0],
+    },
+    plains: {
+      movementCost: [1, 0],
+    },
+    grass_hills: {
+      movementCost: [2, 0],
+    },
+    grass_mountains: {
+      movementCost: [4, 0],
+    },
+    desert: {
+      movementCost: [1, 0],
+    },
+    desert_hills: {
+      movementCost: [3, 0],
+    },
+    desert_mountains: {
+      movementCost: [4, 0],
+    },
+    snow_plains: {
+      movementCost: [2, 0],
+    },
+    snow_hills: {
+      movementCost: [3, 0],
+    },
+    snow_mountains: {
+      movementCost: [5, 0],
+    },
+    mountain: {
+      movementCost: [0, 0],
+    },
+  },
+};
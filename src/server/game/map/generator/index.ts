@@ -1,6 +1,7 @@
 import { Random } from '../../../utils/random';
 import SimplexNoise from 'simplex-noise';
 import { Biome, River, TilePool, TileType } from './biome';
+import type { Ruleset } from '../../ruleset';
 import { Map, MapOptions } from '..';
 import { Tile } from '../tile';
 import { Improvement } from '../tile/improvement';
@@ -37,6 +38,16 @@ const SNOW_MOUNTAINS = new TileType('snow_mountains', 4, {});
 const MOUNTAIN = new TileType('mountain', 5, {});
 const MOUNTAIN_SPRING = new TileType('mountain', 5, {}, null, false, false, true);
 
+/** Every tile type the generator places, so that rulesets can be checked for rules about each of them */
+export const GENERATED_TILE_TYPES: TileType[] = [
+  OCEAN, SHALLOW_OCEAN, RIVER, FROZEN_OCEAN, SHALLOW_FROZEN_OCEAN, FROZEN_RIVER,
+  GRASS_LOWLANDS, GRASS_PLAINS, GRASS_HILLS, GRASS_MOUNTAINS,
+  TEMPERATE_FOREST_LOWLANDS, TEMPERATE_FOREST_PLAINS, TEMPERATE_FOREST_HILLS, TEMPERATE_FOREST_MOUNTAINS,
+  DESERT_PLAINS, DESERT_HILLS, DESERT_MOUNTAINS,
+  SNOW_PLAINS, SNOW_HILLS, SNOW_MOUNTAINS,
+  MOUNTAIN, MOUNTAIN_SPRING,
+];
+
 export class PerlinWorldGenerator {
 
   private random: Random;
@@ -196,7 +207,7 @@ export class PerlinWorldGenerator {
     ) + 1) / 2;
   }
 
-  generate(): Map { // TODO - river gen needs to be fixed so that this can be cleaned up. for example, the two loops should be combined
+  generate(ruleset: Ruleset): Map { // TODO - river gen needs to be fixed so that this can be cleaned up. for example, the two loops should be combined
     const startTime = new Date().getTime();
 
     const { width, height } = this;
@@ -220,15 +231,15 @@ export class PerlinWorldGenerator {
       river.generate(tileTypeMap, heightMap, RIVER);
     }
 
-    const map = new Map(height, width);
+    const map = new Map(height, width, ruleset);
 
     let i = 0;
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const tile = new Tile(tileTypeMap[i].type, Math.max(heightMap[i], this.seaLevel), new Yield(tileTypeMap[i].yieldParams));
+        const tile = new Tile(tileTypeMap[i].type, Math.max(heightMap[i], this.seaLevel), new Yield(tileTypeMap[i].yieldParams), ruleset);
 
         const vegetation = tileTypeMap[i].getVegetation(this.random);
-        if (vegetation) tile.improvement = new Improvement(vegetation, tile.baseYield);
+        if (vegetation) tile.improvement = new Improvement(vegetation, tile.baseYield, ruleset);
 
         map.setTile({ x, y }, tile);
         i++;
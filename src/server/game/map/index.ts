@@ -1,3 +1,4 @@
+import type { Ruleset } from '../ruleset';
 import { Coords, World } from '../world';
 import { MovementClass, PromotionClass, Unit } from './tile/unit';
 import { City } from './tile/city';
@@ -7,7 +8,6 @@ import { getAdjacentCoords, mod, Event, arrayIncludesCoords, getCoordInDirection
 import { Route, Trader, TraderData } from './trade';
 import { Yield, YieldParams } from './tile/yield';
 import { ErrandType } from './tile/errand';
-import { Knowledge } from './tile/knowledge';
 
 // MAGIC NUMBER CONSTANTS - TODO GET RID OF THESE!
 const TRADER_SPEED = 1;
@@ -26,13 +26,16 @@ export class Map {
   width: number;
   cities: City[];
   traders: Trader[];
-  updates: { (civID: number): Event }[];
+  updates: { (civID: number | null): Event }[];
+  /** The rules everything on this map is played by */
+  ruleset: Ruleset;
 
   private tiles: Tile[];
 
-  constructor(height: number, width: number) {
+  constructor(height: number, width: number, ruleset: Ruleset) {
     this.height = height;
     this.width = width;
+    this.ruleset = ruleset;
     this.tiles = new Array(height*width);
     this.cities = [];
     this.traders = [];
@@ -49,9 +52,9 @@ export class Map {
     };
   }
 
-  static import(data: any): Map {
-    const map = new Map(data.height, data.width);
-    map.tiles = data.tiles.map(tileData => Tile.import(tileData));
+  static import(data: any, ruleset: Ruleset): Map {
+    const map = new Map(data.height, data.width, ruleset);
+    map.tiles = data.tiles.map(tileData => Tile.import(tileData, ruleset));
     map.cities = data.cities.map(cityData => {
       const city = City.import(cityData);
       const set = city.getTiles();
@@ -64,18 +67,18 @@ export class Map {
     return map;
   }
 
-  private pos({ x, y }: Coords): number {
+  pos({ x, y }: Coords): number {
     return (y * this.width) + mod(x, this.width);
   }
 
-  private coords(pos: number): Coords {
+  coords(pos: number): Coords {
     return {
       x: mod(pos, this.width),
 		  y: Math.floor(pos / this.width),
     };
   }
 
-  getUpdates(): { (civID: number): Event }[] {
+  getUpdates(): { (civID: number | null): Event }[] {
     return this.updates.splice(0);
   }
 
@@ -178,6 +181,8 @@ export class Map {
     stepLength: number,
   ): void {
     const tile = this.getTile(coords);
+    // Sight lines stop at the top and bottom edges of the map
+    if (!tile) return;
     if (r > 0) {
       if (!tileSet.has(tile) && tile.getTotalElevation() >= maxElevation) {
         coordsArray.push(coords);
@@ -186,21 +191,21 @@ export class Map {
       if (stepsUntilSpread === 0) {
         const newLeftCoords = getCoordInDirection(coords, direction-1);
         const newLeftTile = this.getTile(newLeftCoords);
-        const newLeftSlope = newLeftTile.getTotalElevation() - maxElevation;
+        const newLeftSlope = (newLeftTile?.getTotalElevation() ?? maxElevation) - maxElevation;
         this.getVisibleTilesRecurse(
           newLeftCoords, maxElevation + slope, Math.max(slope, newLeftSlope),
           r-1, direction, coordsArray, tileSet, stepLength, stepLength
         );
         const newCoords = getCoordInDirection(coords, direction);
         const newTile = this.getTile(newCoords);
-        const newSlope = newTile.getTotalElevation() - maxElevation;
+        const newSlope = (newTile?.getTotalElevation() ?? maxElevation) - maxElevation;
         this.getVisibleTilesRecurse(
           newCoords, maxElevation + slope, Math.max(slope, newSlope),
           r-1, direction, coordsArray, tileSet, stepLength, stepLength
         );
         const newRightCoords = getCoordInDirection(coords, direction+1);
         const newRightTile = this.getTile(newRightCoords);
-        const newRightSlope = newRightTile.getTotalElevation() - maxElevation;
+        const newRightSlope = (newRightTile?.getTotalElevation() ?? maxElevation) - maxElevation;
         this.getVisibleTilesRecurse(
           newRightCoords, maxElevation + slope, Math.max(slope, newRightSlope),
           r-1, direction, coordsArray, tileSet, stepLength, stepLength
@@ -208,7 +213,7 @@ export class Map {
       } else {
         const newCoords = getCoordInDirection(coords, direction);
         const newTile = this.getTile(newCoords);
-        const newSlope = newTile.getTotalElevation() - maxElevation;
+        const newSlope = (newTile?.getTotalElevation() ?? maxElevation) - maxElevation;
         this.getVisibleTilesRecurse(
           newCoords, maxElevation + slope, Math.max(slope, newSlope),
           r-1, direction, coordsArray, tileSet, stepsUntilSpread-1, stepLength
@@ -228,6 +233,7 @@ export class Map {
     for (let direction = 0; direction < 6; direction++) {
       const newCoords = getCoordInDirection(unit.coords, direction);
       const newTile = this.getTile(newCoords);
+      if (!newTile) continue;
       const slope = newTile.getTotalElevation() - tile.getTotalElevation();
 
       this.getVisibleTilesRecurse(
@@ -271,8 +277,13 @@ export class Map {
     owner.addTile(coords);
   }
 
-  getCivTile(civID: number, tile: Tile): TileData | null {
-    if (tile.discoveredBy[civID]) {
+  /**
+   * @param civID the civ whose view of `tile` to return, or null for the unobstructed view spectators may have
+   */
+  getCivTile(civID: number | null, tile: Tile): TileData | null {
+    if (civID === null) {
+      return tile.getVisibleData();
+    } else if (tile.discoveredBy[civID]) {
       if (tile.visibleTo[civID]) {
         return tile.getVisibleData();
       } else {
@@ -283,7 +294,7 @@ export class Map {
     }
   }
 
-  getCivMap(civID: number): (TileData | null)[] {
+  getCivMap(civID: number | null): (TileData | null)[] {
     return this.tiles.map((tile) => {
       return this.getCivTile(civID, tile);
     });
@@ -305,10 +316,20 @@ export class Map {
   tileUpdate(coords: Coords) {
     // if (coords.x === null && coords.y === null) return;
     const tile = this.getTile(coords);
-    this.updates.push( (civID: number) => ['tileUpdate', [ coords, this.getCivTile(civID, tile) ]] );
+    this.updates.push( (civID: number | null) => ['tileUpdate', [ coords, this.getCivTile(civID, tile) ]] );
   }
 
-  moveUnitTo(unit: Unit, coords: Coords): void {
+  /**
+   * Marks the whole map as possibly changed, for changes too widespread to report tile by tile.
+   */
+  mapUpdate() {
+    this.updates.push( () => ['mapUpdate', []] );
+  }
+
+  /**
+   * @returns whether the move let the unit's civ see any tile it could not see before
+   */
+  moveUnitTo(unit: Unit, coords: Coords): boolean {
     // mark tiles currently visible by unit as unseen
     const srcVisible = this.getVisibleTilesCoords(unit);
     for (const visibleCoords of srcVisible) {
@@ -326,6 +347,12 @@ export class Map {
     for (const visibleCoords of newVisible) {
       this.setTileVisibility(unit.civID, visibleCoords, true);
     }
+
+    // Tiles the unit saw from both ends stayed visible throughout, whatever their counters did in between
+    const srcPositions = new Set(srcVisible.map(visibleCoords => this.pos(visibleCoords)));
+    return newVisible.some(visibleCoords => (
+      !srcPositions.has(this.pos(visibleCoords)) && this.getTile(visibleCoords).visibleTo[unit.civID] === 1
+    ));
   }
 
   addTrader(trader: Trader) {
@@ -391,11 +418,14 @@ export class Map {
     );
   }
 
-  settleCityAt(coords: Coords, name: string, civID: number): boolean {
+  /**
+   * @param original whether this is the first city `civID` has ever founded
+   */
+  settleCityAt(coords: Coords, name: string, civID: number, original: boolean): boolean {
     const tile = this.getTile(coords);
     if (!this.canSettleOn(tile)) return false;
 
-    const city: City = new City(coords, name, civID);
+    const city: City = new City(coords, name, civID, original);
     this.cities.push(city);
 
     for (const neighbor of this.getNeighborsCoords(coords)) {
@@ -417,7 +447,7 @@ export class Map {
     const tile = this.getTile(coords);
     if (tile.owner?.civID !== ownerID) return;
     
-    tile.improvement = new Improvement('worksite', tile.baseYield);
+    tile.improvement = new Improvement('worksite', tile.baseYield, this.ruleset);
     this.startErrandAt(coords, tile.improvement, {
       type: ErrandType.CONSTRUCTION,
       option: improvementType,
@@ -440,7 +470,7 @@ export class Map {
     if (tile.owner?.civID !== ownerID) return;
     if (!this.canBuildOn(tile)) return;
 
-    tile.improvement = new Improvement(type, tile.baseYield);
+    tile.improvement = new Improvement(type, tile.baseYield, this.ruleset);
 
     this.tileUpdate(coords);
   }
@@ -508,7 +538,7 @@ export class Map {
         for (const name in spillover) {
           const [spilloverPoints, maxPoints] = spillover[name];
           for (const neighborCoords of this.getNeighborsCoords(coords)) {
-            this.getTile(neighborCoords).addKnowledge(Knowledge.knowledgeTree[name], spilloverPoints, 0.1, maxPoints);
+            this.getTile(neighborCoords).addKnowledge(this.ruleset.knowledgeTree[name], spilloverPoints, 0.1, maxPoints);
           }
         }
       }
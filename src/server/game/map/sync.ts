@@ -0,0 +1,133 @@
+import { Coords } from '../world';
+import { Event, mod } from '../../utils';
+import { Map } from '.';
+import { TileData } from './tile';
+
+/** Width and height of a map chunk, in tiles */
+export const CHUNK_SIZE = 16;
+/** Most chunks a recipient may be subscribed to at once */
+export const MAX_SUBSCRIBED_CHUNKS = 256;
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * @returns the index of every chunk overlapping `bounds`, wrapping around the map horizontally like `Map.pos` does
+ */
+export const getChunksInBounds = (map: Map, { x, y, width, height }: Bounds): number[] => {
+  const chunks = new Set<number>();
+  const chunksPerRow = Math.ceil(map.width / CHUNK_SIZE);
+  const yMin = Math.max(y, 0);
+  const yMax = Math.min(y + height, map.height) - 1;
+
+  for (let dx = 0; dx < Math.min(width, map.width); dx++) {
+    const chunkX = Math.floor(mod(x + dx, map.width) / CHUNK_SIZE);
+    for (let chunkY = Math.floor(yMin / CHUNK_SIZE); chunkY <= Math.floor(yMax / CHUNK_SIZE); chunkY++) {
+      chunks.add((chunkY * chunksPerRow) + chunkX);
+    }
+  }
+
+  return [...chunks];
+};
+
+const getChunkCoords = (map: Map, chunk: number): Coords[] => {
+  const chunksPerRow = Math.ceil(map.width / CHUNK_SIZE);
+  const xStart = mod(chunk, chunksPerRow) * CHUNK_SIZE;
+  const yStart = Math.floor(chunk / chunksPerRow) * CHUNK_SIZE;
+
+  const coordsList: Coords[] = [];
+  for (let y = yStart; y < Math.min(yStart + CHUNK_SIZE, map.height); y++) {
+    for (let x = xStart; x < Math.min(xStart + CHUNK_SIZE, map.width); x++) {
+      coordsList.push({ x, y });
+    }
+  }
+  return coordsList;
+};
+
+/**
+ * Tracks what one recipient was last sent of the map, so that only tiles which changed since need to be sent again.
+ * Recipients only receive the chunks they are subscribed to, which are usually the ones around their viewport.
+ * Every message changing the recipient's map carries a version number, so that a client which missed one can ask to be resynced.
+ */
+export class MapSync {
+  /** Version of the map the recipient was last sent, or 0 if it has not been sent the map yet */
+  private version: number;
+  /** JSON of every tile as it was last sent, by position */
+  private sentTiles: (string | undefined)[];
+  private chunks: Set<number>;
+
+  constructor() {
+    this.version = 0;
+    this.sentTiles = [];
+    this.chunks = new Set();
+  }
+
+  /**
+   * Forgets everything the recipient was sent, until it subscribes to chunks again.
+   * @returns a `resetMap` event telling the client to do the same
+   */
+  reset(): Event {
+    this.sentTiles = [];
+    this.chunks = new Set();
+    this.version++;
+    return ['resetMap', [this.version, CHUNK_SIZE, MAX_SUBSCRIBED_CHUNKS]];
+  }
+
+  /**
+   * Replaces the chunks the recipient is subscribed to.
+   * @returns a `mapDelta` event holding the newly subscribed chunks, or null if there were none
+   */
+  subscribe(map: Map, civID: number | null, chunks: number[]): Event | null {
+    if (this.version === 0) return this.reset();
+
+    const newChunks = chunks.filter(chunk => !this.chunks.has(chunk));
+    for (const chunk of this.chunks) {
+      if (chunks.includes(chunk)) continue;
+      // The client may still draw these tiles, but they must be sent in full if it subscribes again
+      for (const coords of getChunkCoords(map, chunk)) {
+        this.sentTiles[map.pos(coords)] = undefined;
+      }
+    }
+    this.chunks = new Set(chunks);
+
+    return this.getDelta(map, civID, ([] as Coords[]).concat(...newChunks.map(chunk => getChunkCoords(map, chunk))));
+  }
+
+  /**
+   * @param coordsList the tiles which may have changed, or undefined if any of them may have
+   * @returns a `mapDelta` event holding each subscribed tile that changed since it was last sent, or null if none did
+   */
+  delta(map: Map, civID: number | null, coordsList?: Coords[]): Event | null {
+    if (this.version === 0) return this.reset();
+
+    const chunksPerRow = Math.ceil(map.width / CHUNK_SIZE);
+    const subscribedCoords = coordsList
+      ? coordsList.filter(({ x, y }) => this.chunks.has(
+        (Math.floor(y / CHUNK_SIZE) * chunksPerRow) + Math.floor(mod(x, map.width) / CHUNK_SIZE)
+      ))
+      : ([] as Coords[]).concat(...[...this.chunks].map(chunk => getChunkCoords(map, chunk)));
+
+    return this.getDelta(map, civID, subscribedCoords);
+  }
+
+  private getDelta(map: Map, civID: number | null, coordsList: Coords[]): Event | null {
+    const changes: [Coords, TileData | null][] = [];
+    for (const coords of coordsList) {
+      const pos = map.pos(coords);
+      const tileData = map.getCivTile(civID, map.getTile(coords));
+      const json = JSON.stringify(tileData);
+      // This also drops repeated updates to the same tile
+      if (this.sentTiles[pos] === json) continue;
+      this.sentTiles[pos] = json;
+      changes.push([coords, tileData]);
+    }
+
+    if (changes.length === 0) return null;
+    this.version++;
+    return ['mapDelta', [changes, this.version]];
+  }
+}
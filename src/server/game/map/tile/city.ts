@@ -7,13 +7,16 @@ export class City {
   center: Coords;
   name: string;
   civID: number;
+  /** Whether this was the first city of the civ that founded it, which a domination victory needs every one of */
+  original: boolean;
 
   private tiles: Set<Coords>;
 
-  constructor(center: Coords, name: string, civID: number) {
+  constructor(center: Coords, name: string, civID: number, original: boolean) {
     this.center = center;
     this.name = name;
     this.civID = civID;
+    this.original = original;
 
     this.tiles = new Set();
     this.addTile(center);
@@ -28,12 +31,13 @@ export class City {
       center: this.center,
       name: this.name,
       civID: this.civID,
+      original: this.original,
       tiles,
     };
   }
 
   static import(data: any): City {
-    const city = new City(data.center, data.name, data.civID);
+    const city = new City(data.center, data.name, data.civID, data.original);
     city.tiles = new Set();
     for (const coords of data.tiles) {
       city.addTile(coords);
@@ -1,8 +1,8 @@
 import { Coords, World } from '../../world';
+import type { Ruleset } from '../../ruleset';
 import { Map } from '../index';
 import { Improvement } from './improvement';
 import { Tile } from './index';
-import { Knowledge } from './knowledge';
 import { Unit } from './unit';
 import { Yield, ResourceStore, YieldParams } from "./yield";
 
@@ -28,24 +28,14 @@ export type ErrandAction = {
 };
 
 export class WorkErrand {
-  static errandCostTable: Record<ErrandType, { [option: string]: Yield }> = {
-    [ErrandType.CONSTRUCTION]: {
-      'encampment': new Yield({production: 1}),
-      'campus': new Yield({production: 1}),
-      'farm': new Yield({production: 10}),
-    },
-    [ErrandType.UNIT_TRAINING]: Unit.costTable,
-    [ErrandType.RESEARCH]: Knowledge.getCosts(),
-  };
-
   static errandActionEffects: Record<ErrandType, (world: World, map: Map, tile: Tile, action: ErrandAction) => void> = {
     [ErrandType.CONSTRUCTION]: (world, map, tile, action) => {
       delete tile.improvement;
-      tile.improvement = new Improvement(action.option, tile.baseYield);
+      tile.improvement = new Improvement(action.option, tile.baseYield, map.ruleset);
     },
     [ErrandType.UNIT_TRAINING]: (world, map, tile, action) => {
       if (!(tile.owner && action.location)) return;
-      const newUnit = new Unit(action.option, tile.owner.civID, action.location);
+      const newUnit = new Unit(action.option, tile.owner.civID, action.location, map.ruleset);
       if (tile.unit) {
         // if there is already a unit on this tile, we must figure something else out
       } else {
@@ -53,7 +43,7 @@ export class WorkErrand {
       }
     },
     [ErrandType.RESEARCH]: (world, map, tile, action) => {
-      tile.addKnowledge(Knowledge.knowledgeTree[action.option], 100, 0);
+      tile.addKnowledge(map.ruleset.knowledgeTree[action.option], 100, 0);
     },
   }
 
@@ -63,8 +53,8 @@ export class WorkErrand {
   public parentStorage: ResourceStore; // Specifically, this is a REFERENCE to the ResourceStore of an Improvement
   public action: ErrandAction;
 
-  constructor(parentStorage: ResourceStore, action: ErrandAction) {
-    this.cost = WorkErrand.errandCostTable[action.type][action.option];
+  constructor(parentStorage: ResourceStore, action: ErrandAction, ruleset: Ruleset) {
+    this.cost = ruleset.errandCostTable[action.type][action.option];
     this.parentStorage = parentStorage;
     this.storedThisTurn = new ResourceStore({});
     this.storedThisTurn.incr(this.parentStorage)
@@ -82,8 +72,8 @@ export class WorkErrand {
     };
   }
 
-  static import(parentStorage: ResourceStore, data: any): WorkErrand {
-    const errand = new WorkErrand(parentStorage, data.action);
+  static import(parentStorage: ResourceStore, data: any, ruleset: Ruleset): WorkErrand {
+    const errand = new WorkErrand(parentStorage, data.action, ruleset);
     const storageCap = data.storedThisTurn.capacity;
     delete data.storedThisTurn.capacity;
     errand.storedThisTurn = new ResourceStore(storageCap).incr(data.storedThisTurn) as ResourceStore;
@@ -1,6 +1,7 @@
 import { Trader } from '../trade';
+import type { Ruleset } from '../../ruleset';
 import { ErrandAction, ErrandData, ErrandType, WorkErrand } from './errand';
-import { Knowledge, KnowledgeBranch } from './knowledge';
+import { KnowledgeBranch } from './knowledge';
 import { PromotionClass } from './unit';
 import { ResourceStore, Yield, YieldParams } from './yield';
 
@@ -19,39 +20,6 @@ export interface ImprovementConstructionCost {
 }
 
 export class Improvement {
-  static yieldTable: { [improvement: string]: Yield } = {
-    'settlement': new Yield({food: 2, production: 2}),
-    'encampment': new Yield({production: 1}),
-  
-    'farm': new Yield({food: 1}),
-  
-    'forest': new Yield({food: 1}),
-  };
-  
-  static storeCapTable: { [improvement: string]: YieldParams } = {
-    'settlement': {food: 20, production: 2},
-    'encampment': {food: 10, production: 1},
-  
-    'farm': {food: 20},
-  };
-  
-  static naturalImprovementTable: { [improvement: string]: boolean } = {
-    'forest': true,
-  };
-
-  static improvementHeightTable: { [improvement: string]: number } = {
-    'forest': 5,
-  }
-
-  static trainableUnitClassTable: { [improvement: string]: PromotionClass[] } = {
-    'settlement': [PromotionClass.CIVILLIAN],
-    'encampment': [PromotionClass.MELEE, PromotionClass.RANGED, PromotionClass.RECON],
-  };
-
-  static researchableKnowledgeBranchTable: { [improvement: string]: KnowledgeBranch[] } = {
-    'campus': [KnowledgeBranch.OFFENSE, KnowledgeBranch.DEFESNSE, KnowledgeBranch.CIVICS, KnowledgeBranch.DEVELOPMENT],
-  };
-
   type: string;
   pillaged: boolean;
   yield: Yield;
@@ -62,21 +30,23 @@ export class Improvement {
   protected traders: Trader[];
   protected suppliers: Trader[];
   protected storage: ResourceStore;
+  private ruleset: Ruleset;
 
-  static makeCatalog(types: string[]): ImprovementConstructionCost[] {
+  static makeCatalog(types: string[], ruleset: Ruleset): ImprovementConstructionCost[] {
     return types.map(type => (
-      { type, cost: WorkErrand.errandCostTable[ErrandType.CONSTRUCTION][type] }
+      { type, cost: ruleset.errandCostTable[ErrandType.CONSTRUCTION][type] }
     ));
   }
   
-  constructor(type?: string, baseYield?: Yield, metadata?: any) {
-    if (!(type && baseYield)) return;
+  constructor(type?: string, baseYield?: Yield, ruleset?: Ruleset, metadata?: any) {
+    if (!(type && baseYield && ruleset)) return;
     this.type = type;
     this.pillaged = false;
-    this.isNatural = Improvement.naturalImprovementTable[type];
-    this.yield = baseYield.add(Improvement.yieldTable[type] ?? new Yield({}));
+    this.ruleset = ruleset;
+    this.isNatural = ruleset.improvement.naturalImprovementTable[type];
+    this.yield = baseYield.add(ruleset.improvement.yieldTable[type] ?? new Yield({}));
     this.metadata = metadata;
-    this.storage = new ResourceStore(Improvement.storeCapTable[type] ?? {});
+    this.storage = new ResourceStore(ruleset.improvement.storeCapTable[type] ?? {});
     this.traders = [];
     this.suppliers = [];
     if (this.isNatural) {
@@ -98,8 +68,9 @@ export class Improvement {
     };
   }
 
-  static import(data: any): Improvement {
+  static import(data: any, ruleset: Ruleset): Improvement {
     const improvement = new Improvement();
+    improvement.ruleset = ruleset;
     improvement.type = data.type;
     improvement.pillaged = data.pillaged;
     improvement.isNatural = data.isNatural;
@@ -107,7 +78,7 @@ export class Improvement {
     const storageCap = data.storage.capacity;
     delete data.storage.capacity;
     improvement.storage = new ResourceStore(storageCap).incr(new Yield(data.storage)) as ResourceStore;
-    if (data.errand) improvement.errand = WorkErrand.import(improvement.storage, data.errand);
+    if (data.errand) improvement.errand = WorkErrand.import(improvement.storage, data.errand, ruleset);
     improvement.traders = [];
     improvement.suppliers = [];
     return improvement;
@@ -128,7 +99,7 @@ export class Improvement {
    * @returns list of units classes this improvement knows how to train
    */
   getTrainableUnitClasses(): PromotionClass[] {
-    return Improvement.trainableUnitClassTable[this.type] ?? [];
+    return this.ruleset.improvement.trainableUnitClassTable[this.type] ?? [];
   }
 
   /**
@@ -136,7 +107,7 @@ export class Improvement {
    * @returns list of knowledge branches this improvement knows how to research
    */
   getResearchableKnowledgeBranches(): KnowledgeBranch[] {
-    return Improvement.researchableKnowledgeBranchTable[this.type] ?? [];
+    return this.ruleset.improvement.researchableKnowledgeBranchTable[this.type] ?? [];
   }
 
   /**
@@ -145,11 +116,11 @@ export class Improvement {
    */
   getResearchableKnowledgeNames(): string[] {
     const researchableBranches = this.getResearchableKnowledgeBranches().reduce((obj, branch) => ({ ...obj, [branch]: true }), {});
-    return Knowledge.getKnowledgeList().filter(({ branch }) => researchableBranches[branch]).map(({ name }) => name);
+    return this.ruleset.getKnowledgeList().filter(({ branch }) => researchableBranches[branch]).map(({ name }) => name);
   }
 
   startErrand(errand: ErrandAction) {
-    this.errand = new WorkErrand(this.storage, errand);
+    this.errand = new WorkErrand(this.storage, errand, this.ruleset);
   }
 
   work(): void {
@@ -166,7 +137,7 @@ export class Improvement {
           supplier.expire();
         }
         this.storage.decr(this.errand.cost);
-        this.storage.setCapacity(Improvement.storeCapTable[this.type]);
+        this.storage.setCapacity(this.ruleset.improvement.storeCapTable[this.type]);
       }
       this.errand.storedThisTurn.reset();
     }
@@ -1,3 +1,4 @@
+import type { Ruleset } from '../../ruleset';
 import { Unit, UnitData, UnitTypeCost } from './unit';
 import { Improvement, ImprovementConstructionCost, ImprovementData } from './improvement';
 import { City, CityData } from './city';
@@ -17,25 +18,6 @@ export interface TileData {
 }
 
 export class Tile {
-  static movementCostTable: { [type: string]: [number, number] } = {
-    // tile name: [land mp, water mp] (0 = impassable)
-    'ocean': [0, 1],
-    'frozen_ocean': [0, 0],
-    'river': [4, 1],
-    'frozen_river': [3, 0],
-    'grass_lowlands': [1, 0],
-    'plains': [1, 0],
-    'grass_hills': [2, 0],
-    'grass_mountains': [4, 0],
-    'desert': [1, 0],
-    'desert_hills': [3, 0],
-    'desert_mountains': [4, 0],
-    'snow_plains': [2, 0],
-    'snow_hills': [3, 0],
-    'snow_mountains': [5, 0],
-    'mountain': [0, 0],
-  };
-
   movementCost: [number, number];
   type: string;
   elevation: number;
@@ -51,8 +33,10 @@ export class Tile {
 
   public baseYield: Yield;
 
-  constructor(type: string, tileHeight: number, baseYield: Yield) {
-    this.movementCost = Tile.movementCostTable[type];
+  private ruleset: Ruleset;
+
+  constructor(type: string, tileHeight: number, baseYield: Yield, ruleset: Ruleset) {
+    this.movementCost = ruleset.tile.movementCostTable[type];
     this.type = type;
     this.elevation = tileHeight;
 
@@ -66,6 +50,8 @@ export class Tile {
     this.visibleTo = {};
 
     this.baseYield = baseYield;
+
+    this.ruleset = ruleset;
   }
 
   export() {
@@ -83,10 +69,10 @@ export class Tile {
     };
   }
 
-  static import(data: any): Tile {
-    const tile = new Tile(data.type, data.elevation, new Yield(data.baseYield));
+  static import(data: any, ruleset: Ruleset): Tile {
+    const tile = new Tile(data.type, data.elevation, new Yield(data.baseYield), ruleset);
     // tile.unit = Unit.import(data.unit);
-    if (data.improvement) tile.improvement = Improvement.import(data.improvement);
+    if (data.improvement) tile.improvement = Improvement.import(data.improvement, ruleset);
     tile.discoveredBy = data.discoveredBy;
     tile.knowledges = data.knowledges;
     return tile;
@@ -131,7 +117,7 @@ export class Tile {
    */
   getTotalElevation(): number {
     return Math.round(
-      this.elevation + (this.improvement ? Improvement.improvementHeightTable[this.improvement.type] ?? 0 : 0)
+      this.elevation + (this.improvement ? this.ruleset.improvement.improvementHeightTable[this.improvement.type] ?? 0 : 0)
     );
   }
 
@@ -155,6 +141,11 @@ export class Tile {
     this.visibleTo[civID] = 0;
   }
 
+  forgetCiv(civID: number): void {
+    delete this.visibleTo[civID];
+    delete this.discoveredBy[civID];
+  }
+
   canSupply(requirement: YieldParams): boolean {
     return !!this.improvement && (
       this.improvement.yield.canSupply(requirement)
@@ -189,7 +180,7 @@ export class Tile {
 
   /**
    * Returns `true` if this tile has 100 points for all knowledges in `knowledgeNames`, else `false`.
-   * @param knowledgeNames List of knowledge names, matching the keys of Knowledge.knowledgeTree.
+   * @param knowledgeNames List of knowledge names, matching the keys of the ruleset's knowledge tree.
    */
   hasKnowledges(knowledgeNames: string[]): boolean {
     for (const name of knowledgeNames) {
@@ -231,7 +222,7 @@ export class Tile {
    */
    getBuildableImprovements(): string[] {
     if (!this.unit) return [];
-    return Knowledge.getBuildableImprovements(this.getKnowledges(true))
+    return this.ruleset.getBuildableImprovements(this.getKnowledges(true))
       .filter((improvementType) => {
         if (improvementType === 'farm' && !this.isFarmable()) return false;
         return true;
@@ -245,8 +236,8 @@ export class Tile {
    getTrainableUnitTypes(): string[] {
     if (!this.improvement) return [];
     const trainableUnitClasses = this.improvement.getTrainableUnitClasses().reduce((obj, name) => ({ ...obj, [name]: true }), {});
-    return Knowledge.getTrainableUnits(this.getKnowledges(true))
-      .filter(unitType => trainableUnitClasses[Unit.promotionClassTable[unitType]]);
+    return this.ruleset.getTrainableUnits(this.getKnowledges(true))
+      .filter(unitType => trainableUnitClasses[this.ruleset.unit.promotionClassTable[unitType]]);
   }
 
   /**
@@ -255,7 +246,7 @@ export class Tile {
    */
    getImprovementCatalog(): ImprovementConstructionCost[] | null {
     const buildableImprovements = this.getBuildableImprovements();
-    const catalog = Improvement.makeCatalog(buildableImprovements);
+    const catalog = Improvement.makeCatalog(buildableImprovements, this.ruleset);
     if (catalog.length === 0) return null;
     return catalog;
   }
@@ -266,7 +257,7 @@ export class Tile {
    */
   getUnitCatalog(): UnitTypeCost[] | null {
     const trainableUnits = this.getTrainableUnitTypes();
-    const catalog = Unit.makeCatalog(trainableUnits);
+    const catalog = Unit.makeCatalog(trainableUnits, this.ruleset);
     if (catalog.length === 0) return null;
     return catalog;
   }
@@ -279,7 +270,7 @@ export class Tile {
     if (!this.improvement) return null;
     const knowledgeBranches = this.improvement.getResearchableKnowledgeBranches().reduce((obj, branch) => ({ ...obj, [branch]: true }), {});
     const completedKnowledges = this.getKnowledges(true).filter(key => !(this.knowledges[key] < 100));
-    const reachableKnowledges = Knowledge.getReachableKnowledges(completedKnowledges);
+    const reachableKnowledges = this.ruleset.getReachableKnowledges(completedKnowledges);
     const knowledgeCatalog = reachableKnowledges.filter(
       ({ name, branch }) => (knowledgeBranches[branch] && ((this.knowledges[name] ?? 0) < 100))
     );
@@ -1,4 +1,5 @@
 import { getAdjacentCoords } from '../../../utils';
+import type { Ruleset } from '../../ruleset';
 import { Coords } from '../../world';
 import { Yield } from './yield';
 
@@ -30,69 +31,11 @@ export enum PromotionClass {
 }
 
 export class Unit {
-  static movementTable: { [unitType: string]: number } = {
-    'settler': 3,
-    'builder': 3,
-    'scout': 5,
-    'warrior': 3,
-    'slinger': 3,
-    'archer': 3,
-    'spy': 5,
-  };
-  
-  static movementClassTable: { [unitType: string]: MovementClass } = {
-    'settler': MovementClass.LAND,
-    'builder': MovementClass.LAND,
-    'scout': MovementClass.LAND,
-    'warrior': MovementClass.LAND,
-    'slinger': MovementClass.LAND,
-    'archer': MovementClass.LAND,
-    'spy': MovementClass.LAND,
-  };
-  
-  static promotionClassTable: { [unitType: string]: PromotionClass } = {
-    'settler': PromotionClass.CIVILLIAN,
-    'builder': PromotionClass.CIVILLIAN,
-    'scout': PromotionClass.RECON,
-    'warrior': PromotionClass.MELEE,
-    'slinger': PromotionClass.RANGED,
-    'archer': PromotionClass.RANGED,
-    'spy': PromotionClass.RECON,
-  };
-  
-  static combatStatsTable: { [unitType: string]: [number, number, number] } = {
-    // 'unitType': [offense, defense, awareness],
-    'settler': [0, 1, 0],
-    'builder': [0, 1, 0],
-    'scout': [5, 3, 20],
-    'warrior': [12, 8, 10],
-    'slinger': [10, 5, 12],
-    'archer': [15, 5, 12],
-    'spy': [5, 3, 20],
-  }
-
-  static attackRangeTable: { [unitType: string]: number } = {
-    'slinger': 2,
-    'archer': 3,
-  }
-
-  static visionRangeTable: { [unitType: string]: number } = {
-    default: 2,
-    'scout': 3,
-  }
-  
-  static costTable: { [unitType: string]: Yield } = {
-    'settler': new Yield({production: 10}),
-    'builder': new Yield({production: 5}),
-    'scout': new Yield({production: 10}),
-    'warrior': new Yield({production: 15}),
-    'slinger': new Yield({production: 15}),
-    'spy': new Yield({production: 20}),
-  }
-
   type: string;
   hp: number; // this should never be allowed to be outside the range 0 - 100
   movement: number;
+  /** How far the unit can move each turn */
+  maxMovement: number;
   promotionClass: PromotionClass;
   movementClass: MovementClass;
   combatStats: [number, number, number];
@@ -102,23 +45,24 @@ export class Unit {
   coords: Coords;
   alive: boolean;
 
-  static makeCatalog(types: string[]): UnitTypeCost[] {
+  static makeCatalog(types: string[], ruleset: Ruleset): UnitTypeCost[] {
     return types.map(type => (
-      { type, cost: Unit.costTable[type] }
+      { type, cost: ruleset.unit.costTable[type] }
     ));
   }
 
-  constructor(type: string, civID: number, coords: Coords) {
+  constructor(type: string, civID: number, coords: Coords, ruleset: Ruleset) {
     this.type = type;
     this.hp = 100;
     this.movement = 0;
-    this.promotionClass = Unit.promotionClassTable[type];
-    this.movementClass = Unit.movementClassTable[type];
-    this.combatStats = Unit.combatStatsTable[type];
+    this.maxMovement = ruleset.unit.movementTable[type];
+    this.promotionClass = ruleset.unit.promotionClassTable[type];
+    this.movementClass = ruleset.unit.movementClassTable[type];
+    this.combatStats = ruleset.unit.combatStatsTable[type];
     if (this.promotionClass === PromotionClass.RANGED) {
-      this.attackRange = Unit.attackRangeTable[type];
+      this.attackRange = ruleset.unit.attackRangeTable[type];
     }
-    this.visionRange = Unit.visionRangeTable[type] ?? Unit.visionRangeTable.default;
+    this.visionRange = ruleset.unit.visionRangeTable[type] ?? ruleset.unit.visionRangeTable.default;
     this.civID = civID;
     this.coords = coords;
     this.alive = true;
@@ -135,16 +79,10 @@ export class Unit {
     };
   }
 
-  static import(data: any): Unit {
-    const unit = new Unit(data.type, data.civID, data.coords);
+  static import(data: any, ruleset: Ruleset): Unit {
+    const unit = new Unit(data.type, data.civID, data.coords, ruleset);
     unit.hp = data.hp;
     unit.movement = data.movement;
-    unit.promotionClass = Unit.promotionClassTable[unit.type];
-    unit.movementClass = Unit.movementClassTable[unit.type];
-    unit.combatStats = Unit.combatStatsTable[unit.type];
-    if (unit.promotionClass === PromotionClass.RANGED) {
-      unit.attackRange = Unit.attackRangeTable[unit.type];
-    }
     unit.alive = data.alive;
     return unit;
   }
@@ -182,7 +120,7 @@ export class Unit {
   }
 
   newTurn() {
-    this.movement = Unit.movementTable[this.type];
+    this.movement = this.maxMovement;
   }
 
   isAdjacentTo(dst?: Coords): boolean {
@@ -1,48 +1,72 @@
 import * as WebSocket from 'ws';
-import { PlayerData } from '../utils';
+import { EventMsg, PlayerData, sendMsg } from '../utils';
+import { MapSync } from './map/sync';
 
 export class Player {
   civID: number;
   ready: boolean;
+  mapSync: MapSync;
+  /** Username of the account this player shares a connection with in hotseat mode, or null if they have their own */
+  hotseatHost: string | null;
   private connection: WebSocket | null;
 
-  constructor(civID: number, connection: WebSocket | null) {
+  constructor(civID: number, connection: WebSocket | null, hotseatHost: string | null = null) {
     this.civID = civID;
     this.ready = false;
+    this.mapSync = new MapSync();
+    this.hotseatHost = hotseatHost;
     this.connection = connection;
   }
 
   export() {
     return {
       civID: this.civID,
+      hotseatHost: this.hotseatHost,
     };
   }
 
   static import(data: any): Player {
-    return new Player(data.civID, null)
+    return new Player(data.civID, null, data.hotseatHost)
   }
 
-  isAI(): boolean {
-    return this.connection === null;
+  isConnected(): boolean {
+    return this.connection !== null;
+  }
+
+  isConnectedTo(connection: WebSocket): boolean {
+    return this.connection === connection;
   }
 
   getData(): PlayerData {
     return {
-      civID: this.civID
+      civID: this.civID,
+      connected: this.isConnected(),
+      hotseatHost: this.hotseatHost,
     };
   }
   
   reset(connection: WebSocket | null): void {
     this.ready = false;
+    // A new connection has not been sent the map yet
+    this.mapSync = new MapSync();
     this.connection = connection;
   }
 
-  send(msg: string): void {
+  /**
+   * Passes this player's connection on to another player sharing it in hotseat mode.
+   */
+  handOffTo(player: Player): void {
+    player.connection = this.connection;
+    // The new player must not see what was sent to the previous one
+    player.mapSync = new MapSync();
+    this.connection = null;
+  }
+
+  send(msg: EventMsg): void {
     if (!this.connection) {
-      // TODO - do AI things
       return;
     } else {
-      this.connection.send(msg);
+      sendMsg(this.connection, msg);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { Game } from '.';
+import { Coords } from './world';
+import { Journal, JournalEntry } from './journal';
+
+/**
+ * How each journaled action changes the game. These go through the same world operations as the handlers in `methods.ts`,
+ * leaving out whatever those send back to the player.
+ */
+const replayActions: { [action: string]: (game: Game, civID: number, ...args: any[]) => void } = {
+  turnFinished: (game: Game, civID: number, state: boolean) => {
+    const civ = game.world.civs[civID];
+    if (civ.turnActive) civ.turnFinished = state;
+  },
+  attack: (game: Game, civID: number, srcCoords: Coords, targetCoords: Coords) => {
+    game.world.orderAttack(civID, srcCoords, targetCoords);
+  },
+  moveUnit: (game: Game, civID: number, srcCoords: Coords, path: Coords[], attack: boolean) => {
+    game.world.orderMove(civID, srcCoords, path, attack);
+  },
+  undoMove: (game: Game, civID: number) => {
+    game.world.undoMove(civID);
+  },
+  settleCity: (game: Game, civID: number, coords: Coords, name: string) => {
+    game.world.orderSettleCity(civID, coords, name);
+  },
+  buildImprovement: (game: Game, civID: number, coords: Coords, type: string) => {
+    game.world.orderConstruction(civID, coords, type);
+  },
+  trainUnit: (game: Game, civID: number, coords: Coords, type: string) => {
+    game.world.map.trainUnitAt(coords, type, civID);
+  },
+  researchKnowledge: (game: Game, civID: number, coords: Coords, name: string) => {
+    game.world.map.researchKnowledgeAt(coords, name, civID);
+  },
+};
+
+/**
+ * Rebuilds a game from its journal, without anyone playing it, so that it can be stepped through turn by turn.
+ * Since every roll comes from the game's saved random number generator, the replay plays out exactly as the game did.
+ */
+export class Replayer {
+  /** The game as of the entries replayed so far */
+  game: Game;
+  private entries: JournalEntry[];
+  private position: number;
+
+  constructor(journal: Journal) {
+    // The journal of a game being played keeps growing, so the replay works on a copy of it as it is now
+    const { initial, entries } = JSON.parse(JSON.stringify(journal.export()));
+    this.game = Game.import(initial);
+    this.entries = entries;
+    this.position = 0;
+  }
+
+  isFinished(): boolean {
+    return this.position >= this.entries.length;
+  }
+
+  /**
+   * Applies the next entry of the journal to the game.
+   * @returns the entry, or null if the replay is finished
+   */
+  step(): JournalEntry | null {
+    if (this.isFinished()) return null;
+    const entry = this.entries[this.position++];
+
+    switch (entry.type) {
+      case 'action':
+        replayActions[entry.action]?.(this.game, entry.civID, ...entry.args);
+        break;
+      case 'beginTurn':
+        this.game.beginTurnForCiv(entry.civID);
+        break;
+      case 'endTurn':
+        this.game.endTurnForCiv(entry.civID);
+        break;
+      case 'endRound':
+        this.game.endRound(entry.aiCivIDs);
+        break;
+      case 'giveUnit':
+        this.game.giveUnit(entry.civID, entry.unitType, entry.coords);
+        break;
+      case 'removeUnit':
+        this.game.removeUnitAt(entry.coords);
+        break;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Replays up to and including the end of the current round, then sends the changes to the game's spectators.
+   * @returns the turn the game is on afterwards
+   */
+  stepTurn(): number {
+    while (!this.isFinished()) {
+      if (this.step()?.type === 'endRound') break;
+    }
+    this.game.sendUpdates();
+    return this.game.turn;
+  }
+}
@@ -0,0 +1,375 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+
+import { Schema, validate } from '../utils/schema';
+import { ErrandType } from './map/tile/errand';
+import { Knowledge, KnowledgeBranch } from './map/tile/knowledge';
+import { MovementClass, PromotionClass } from './map/tile/unit';
+import { Yield, YieldParams } from './map/tile/yield';
+
+/**
+ * Where ruleset files are kept, as `<name>.json`.
+ * Released rulesets must never be edited, since games keep playing by the rules they were created with;
+ * balance changes go into a new ruleset instead.
+ */
+export const RULESET_DIRECTORY = path.join(__dirname, '../../../rulesets');
+
+export const DEFAULT_RULESET = 'classic';
+
+/** Ruleset names are file names, so they must not be able to point outside of `RULESET_DIRECTORY` */
+export const RULESET_NAME_PATTERN = /^[\w-]+$/;
+
+const MOVEMENT_CLASSES: { [name: string]: MovementClass } = {
+  land: MovementClass.LAND,
+  water: MovementClass.WATER,
+  air: MovementClass.AIR,
+};
+
+const PROMOTION_CLASSES: { [name: string]: PromotionClass } = {
+  civilian: PromotionClass.CIVILLIAN,
+  melee: PromotionClass.MELEE,
+  ranged: PromotionClass.RANGED,
+  recon: PromotionClass.RECON,
+};
+
+const KNOWLEDGE_BRANCHES: { [name: string]: KnowledgeBranch } = {
+  offense: KnowledgeBranch.OFFENSE,
+  defense: KnowledgeBranch.DEFESNSE,
+  civics: KnowledgeBranch.CIVICS,
+  development: KnowledgeBranch.DEVELOPMENT,
+};
+
+export interface UnitRules {
+  movement: number;
+  movementClass: string;
+  promotionClass: string;
+  /** [offense, defense, awareness] */
+  combatStats: [number, number, number];
+  attackRange?: number;
+  visionRange?: number;
+  /** What training the unit costs. Units without a cost cannot be trained. */
+  cost?: YieldParams;
+}
+
+export interface ImprovementRules {
+  yield?: YieldParams;
+  storeCap?: YieldParams;
+  /** Whether the improvement grows on its own, like forests, rather than being built */
+  natural?: boolean;
+  /** How much the improvement adds to the elevation of its tile, for line of sight */
+  height?: number;
+  trainableUnitClasses?: string[];
+  researchableKnowledgeBranches?: string[];
+  /** What building the improvement costs. Improvements without a cost cannot be built. */
+  constructionCost?: YieldParams;
+}
+
+export interface KnowledgeRules {
+  branch: string;
+  cost: YieldParams;
+  prerequisites: string[];
+  /** Units that can be trained where this knowledge is known */
+  units?: string[];
+  /** Improvements that can be built where this knowledge is known */
+  improvements?: string[];
+}
+
+/**
+ * The rules a game is played by, as read from a ruleset file and stored in saves.
+ */
+export interface RulesetData {
+  name: string;
+  units: { [unitType: string]: UnitRules };
+  /** The vision range of units that do not set their own */
+  defaultVisionRange: number;
+  improvements: { [improvement: string]: ImprovementRules };
+  knowledges: { [name: string]: KnowledgeRules };
+  /** [land mp, water mp] of each tile type, where 0 means impassable */
+  tiles: { [type: string]: { movementCost: [number, number] } };
+}
+
+const yieldParamsSchema = Schema.object({
+  food: Schema.optional(Schema.number()),
+  production: Schema.optional(Schema.number()),
+  science: Schema.optional(Schema.number()),
+});
+
+const movementClassSchema = Schema.enum(Object.keys(MOVEMENT_CLASSES));
+const promotionClassSchema = Schema.enum(Object.keys(PROMOTION_CLASSES));
+const knowledgeBranchSchema = Schema.enum(Object.keys(KNOWLEDGE_BRANCHES));
+
+export const rulesetSchema = Schema.object({
+  name: Schema.string(),
+  units: Schema.record(Schema.object({
+    movement: Schema.number(),
+    movementClass: movementClassSchema,
+    promotionClass: promotionClassSchema,
+    combatStats: Schema.array(Schema.number()),
+    attackRange: Schema.optional(Schema.integer()),
+    visionRange: Schema.optional(Schema.integer()),
+    cost: Schema.optional(yieldParamsSchema),
+  })),
+  defaultVisionRange: Schema.integer(),
+  improvements: Schema.record(Schema.object({
+    yield: Schema.optional(yieldParamsSchema),
+    storeCap: Schema.optional(yieldParamsSchema),
+    natural: Schema.optional(Schema.boolean()),
+    height: Schema.optional(Schema.number()),
+    trainableUnitClasses: Schema.optional(Schema.array(promotionClassSchema)),
+    researchableKnowledgeBranches: Schema.optional(Schema.array(knowledgeBranchSchema)),
+    constructionCost: Schema.optional(yieldParamsSchema),
+  })),
+  knowledges: Schema.record(Schema.object({
+    branch: knowledgeBranchSchema,
+    cost: yieldParamsSchema,
+    prerequisites: Schema.array(Schema.string()),
+    units: Schema.optional(Schema.array(Schema.string())),
+    improvements: Schema.optional(Schema.array(Schema.string())),
+  })),
+  tiles: Schema.record(Schema.object({
+    movementCost: Schema.array(Schema.number()),
+  })),
+});
+
+/**
+ * Checks that `data` is a ruleset, both where it is read from a file and where it is loaded with a save.
+ * @param where what to call `data` in the returned reason
+ * @returns why `data` is not a valid ruleset, or null if it is
+ */
+export const validateRuleset = (data: unknown, where: string): string | null => {
+  const reason = validate(rulesetSchema, data, where);
+  if (reason) return reason;
+
+  // The schema only knows arrays, while these are tuples the game indexes into
+  const { units, tiles } = data as RulesetData;
+  for (const unitType in units) {
+    if (units[unitType].combatStats.length !== 3) {
+      return `${where}.units.${unitType}.combatStats must have exactly 3 entries: offense, defense and awareness`;
+    }
+  }
+  for (const type in tiles) {
+    if (tiles[type].movementCost.length !== 2) {
+      return `${where}.tiles.${type}.movementCost must have exactly 2 entries: land and water`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Thrown when a ruleset cannot be found or read, so that no game is ever created with missing rules.
+ */
+export class InvalidRulesetError extends Error {
+  constructor(reason: string) {
+    super(`Invalid ruleset: ${reason}`);
+    this.name = 'InvalidRulesetError';
+  }
+}
+
+/**
+ * The lookup tables a game's units, improvements, knowledges and tiles are played by, built from its ruleset data.
+ */
+export class Ruleset {
+  readonly name: string;
+
+  readonly unit: {
+    movementTable: { [unitType: string]: number },
+    movementClassTable: { [unitType: string]: MovementClass },
+    promotionClassTable: { [unitType: string]: PromotionClass },
+    combatStatsTable: { [unitType: string]: [number, number, number] },
+    attackRangeTable: { [unitType: string]: number },
+    visionRangeTable: { [unitType: string]: number },
+    costTable: { [unitType: string]: Yield },
+  };
+
+  readonly improvement: {
+    yieldTable: { [improvement: string]: Yield },
+    storeCapTable: { [improvement: string]: YieldParams },
+    naturalImprovementTable: { [improvement: string]: boolean },
+    improvementHeightTable: { [improvement: string]: number },
+    trainableUnitClassTable: { [improvement: string]: PromotionClass[] },
+    researchableKnowledgeBranchTable: { [improvement: string]: KnowledgeBranch[] },
+  };
+
+  readonly knowledgeTree: { [name: string]: Knowledge };
+
+  readonly errandCostTable: Record<ErrandType, { [option: string]: Yield }>;
+
+  readonly tile: {
+    movementCostTable: { [type: string]: [number, number] },
+  };
+
+  private data: RulesetData;
+
+  constructor(data: RulesetData) {
+    this.data = data;
+    this.name = data.name;
+
+    this.unit = {
+      movementTable: {},
+      movementClassTable: {},
+      promotionClassTable: {},
+      combatStatsTable: {},
+      attackRangeTable: {},
+      visionRangeTable: { default: data.defaultVisionRange },
+      costTable: {},
+    };
+    for (const unitType in data.units) {
+      const rules = data.units[unitType];
+      this.unit.movementTable[unitType] = rules.movement;
+      this.unit.movementClassTable[unitType] = MOVEMENT_CLASSES[rules.movementClass];
+      this.unit.promotionClassTable[unitType] = PROMOTION_CLASSES[rules.promotionClass];
+      this.unit.combatStatsTable[unitType] = rules.combatStats;
+      if (rules.attackRange !== undefined) this.unit.attackRangeTable[unitType] = rules.attackRange;
+      if (rules.visionRange !== undefined) this.unit.visionRangeTable[unitType] = rules.visionRange;
+      if (rules.cost) this.unit.costTable[unitType] = new Yield(rules.cost);
+    }
+
+    const constructionCostTable: { [improvement: string]: Yield } = {};
+    this.improvement = {
+      yieldTable: {},
+      storeCapTable: {},
+      naturalImprovementTable: {},
+      improvementHeightTable: {},
+      trainableUnitClassTable: {},
+      researchableKnowledgeBranchTable: {},
+    };
+    for (const type in data.improvements) {
+      const rules = data.improvements[type];
+      if (rules.yield) this.improvement.yieldTable[type] = new Yield(rules.yield);
+      if (rules.storeCap) this.improvement.storeCapTable[type] = rules.storeCap;
+      this.improvement.naturalImprovementTable[type] = rules.natural ?? false;
+      if (rules.height !== undefined) this.improvement.improvementHeightTable[type] = rules.height;
+      if (rules.trainableUnitClasses) {
+        this.improvement.trainableUnitClassTable[type] = rules.trainableUnitClasses.map(name => PROMOTION_CLASSES[name]);
+      }
+      if (rules.researchableKnowledgeBranches) {
+        this.improvement.researchableKnowledgeBranchTable[type] = rules.researchableKnowledgeBranches.map(name => KNOWLEDGE_BRANCHES[name]);
+      }
+      if (rules.constructionCost) constructionCostTable[type] = new Yield(rules.constructionCost);
+    }
+
+    this.knowledgeTree = {};
+    for (const name in data.knowledges) {
+      const { branch, cost, prerequisites, units, improvements } = data.knowledges[name];
+      this.knowledgeTree[name] = new Knowledge(name, KNOWLEDGE_BRANCHES[branch], new Yield(cost), prerequisites, { units, improvements });
+    }
+
+    this.errandCostTable = {
+      [ErrandType.CONSTRUCTION]: constructionCostTable,
+      [ErrandType.UNIT_TRAINING]: this.unit.costTable,
+      [ErrandType.RESEARCH]: this.getKnowledgeCosts(),
+    };
+
+    this.tile = {
+      movementCostTable: {},
+    };
+    for (const type in data.tiles) {
+      this.tile.movementCostTable[type] = data.tiles[type].movementCost;
+    }
+  }
+
+  /**
+   * @returns the ruleset data this was built from, to be stored in saves
+   */
+  export(): RulesetData {
+    return this.data;
+  }
+
+  /**
+   * @throws InvalidRulesetError if `data` does not have the shape of a ruleset
+   */
+  static import(data: unknown): Ruleset {
+    const reason = validateRuleset(data, 'ruleset');
+    if (reason) throw new InvalidRulesetError(reason);
+    return new Ruleset(data as RulesetData);
+  }
+
+  /**
+   * Reads the ruleset file named `name` from `RULESET_DIRECTORY`.
+   * @throws InvalidRulesetError if there is no such ruleset or it is malformed
+   */
+  static async load(name: string): Promise<Ruleset> {
+    if (!RULESET_NAME_PATTERN.test(name)) throw new InvalidRulesetError(`"${name}" is not a valid ruleset name`);
+
+    let data: string;
+    try {
+      data = await fs.readFile(path.join(RULESET_DIRECTORY, `${name}.json`), { encoding: 'utf8' });
+    } catch (err) {
+      if (err.code === 'ENOENT') throw new InvalidRulesetError(`there is no ruleset named "${name}"`);
+      throw err;
+    }
+
+    try {
+      return Ruleset.import(JSON.parse(data));
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new InvalidRulesetError(`${name}.json is not valid JSON: ${err.message}`);
+      throw err;
+    }
+  }
+
+  /**
+   * @returns the names of every ruleset in `RULESET_DIRECTORY`
+   */
+  static async list(): Promise<string[]> {
+    const files = await fs.readdir(RULESET_DIRECTORY);
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length));
+  }
+
+  getKnowledgeCosts(): { [name: string]: Yield } {
+    const costs = {};
+    for (const name in this.knowledgeTree) {
+      costs[name] = this.knowledgeTree[name].cost;
+    }
+    return costs;
+  }
+
+  getTrainableUnits(knowledgeNames: string[]): string[] {
+    let units: string[] = [];
+    for (const name of knowledgeNames) {
+      units = [ ...units, ...this.knowledgeTree[name].units ];
+    }
+    return units;
+  }
+
+  getBuildableImprovements(knowledgeNames: string[]): string[] {
+    let improvements: string[] = [];
+    for (const name of knowledgeNames) {
+      improvements = [ ...improvements, ...this.knowledgeTree[name].improvements ];
+    }
+    return improvements;
+  }
+
+  getKnowledgeList(): Knowledge[] {
+    return Object.keys(this.knowledgeTree).map(key => this.knowledgeTree[key]);
+  }
+
+  private recursiveSetPrerequisitesReachable(reachableMap: { [name: string]: boolean }, knowledge: Knowledge) {
+    reachableMap[knowledge.name] = true;
+    for (const prerequisite of knowledge.prerequisites) {
+      reachableMap = { ...reachableMap, ...this.recursiveSetPrerequisitesReachable(reachableMap, this.knowledgeTree[prerequisite]) };
+    }
+    return reachableMap;
+  }
+
+  getReachableKnowledges(completedPrerequisites: string[]): Knowledge[] {
+    const completedMap = completedPrerequisites.reduce((map, name) => ({ ...map, [name]: true }), {});
+    let reachable = {};
+    for (const name in this.knowledgeTree) {
+      const knowledge = this.knowledgeTree[name];
+      if (reachable[name]) continue;
+      reachable[name] = true;
+      for (const prerequisite of knowledge.prerequisites) {
+        if (!completedMap[prerequisite]) {
+          reachable[name] = false;
+          break;
+        }
+      }
+      if (reachable[name]) {
+        for (const prerequisite of knowledge.prerequisites) {
+          reachable = { ...reachable, ...this.recursiveSetPrerequisitesReachable(reachable, knowledge) };
+        }
+      }
+    }
+    return this.getKnowledgeList().filter(({ name }) => reachable[name]);
+  }
+}
@@ -0,0 +1,325 @@
+import { coordsSchema, Schema, validate } from '../utils/schema';
+import { rulesetSchema, validateRuleset } from './ruleset';
+import { CLASSIC_RULESET_V7 } from './legacyRuleset';
+import { VICTORY_CONDITIONS } from './victory';
+import { DISCONNECT_POLICIES, TURN_MODES } from './turns';
+
+/**
+ * Thrown when save data cannot be turned into a Game, so that a corrupt save is never half-loaded.
+ */
+export class InvalidSaveError extends Error {
+  constructor(reason: string) {
+    super(`Invalid save: ${reason}`);
+    this.name = 'InvalidSaveError';
+  }
+}
+
+/**
+ * `migrations[n]` upgrades save data from format version n to n + 1.
+ * Saves from before versioning was introduced have no `formatVersion`, and count as version 0.
+ * Migrations must never change once released, so they spell out their defaults rather than sharing constants with the game.
+ */
+const migrations: ((data: any) => any)[] = [
+  // 0 -> 1: chat, passwords, turn counting, disconnect policies and autosaves
+  (data) => ({
+    ...data,
+    chat: data.chat ?? [],
+    password: data.password ?? null,
+    turn: data.turn ?? 0,
+    metaData: {
+      disconnectPolicy: 'autoFinish',
+      autosaveInterval: 1,
+      autosaveKeep: 5,
+      ...data.metaData,
+    },
+  }),
+  // 1 -> 2: turn modes and turn timers
+  (data) => ({
+    ...data,
+    metaData: {
+      turnMode: 'simultaneous',
+      turnTimeLimit: 0,
+      turnTimeBonus: 0,
+      ...data.metaData,
+    },
+  }),
+  // 2 -> 3: hotseat players
+  (data) => {
+    const players = {};
+    for (const playerName in data.players) {
+      players[playerName] = { hotseatHost: null, ...data.players[playerName] };
+    }
+    return { ...data, players };
+  },
+  // 3 -> 4: AI players filling empty slots
+  (data) => ({
+    ...data,
+    metaData: {
+      aiFillsEmptySlots: false,
+      ...data.metaData,
+    },
+  }),
+  // 4 -> 5: the world's random number generator
+  (data) => ({
+    ...data,
+    world: {
+      randomState: 42,
+      ...data.world,
+    },
+  }),
+  // 5 -> 6: undoing moves
+  (data) => {
+    const civs = {};
+    for (const civID in data.world?.civs) {
+      civs[civID] = { undoStack: [], ...data.world.civs[civID] };
+    }
+    return { ...data, world: { ...data.world, civs } };
+  },
+  // 6 -> 7: rulesets, where every older game was played by the classic rules of the time
+  (data) => ({
+    // A copy, as the game may change the ruleset data it is given
+    ruleset: JSON.parse(JSON.stringify(CLASSIC_RULESET_V7)),
+    ...data,
+  }),
+  // 7 -> 8: victory conditions, where a civ's first city is the first one on the map it owns
+  (data) => {
+    const civsWithCity = {};
+    const cities = (data.world?.map?.cities ?? []).map((city) => {
+      const original = !civsWithCity[city.civID];
+      civsWithCity[city.civID] = true;
+      return { original, ...city };
+    });
+    return {
+      ...data,
+      world: { ...data.world, map: { ...data.world?.map, cities } },
+      metaData: {
+        victoryConditions: ['elimination', 'domination', 'science', 'score'],
+        scienceVictoryKnowledges: Object.keys(data.ruleset?.knowledges ?? {}),
+        turnLimit: 0,
+        result: null,
+        ...data.metaData,
+      },
+    };
+  },
+  // 8 -> 9: eliminating civs, which older saves never did to those already left without units or cities
+  (data) => {
+    const civsWithCity = {};
+    for (const city of data.world?.map?.cities ?? []) {
+      civsWithCity[city.civID] = true;
+    }
+    const civs = {};
+    for (const civID in data.world?.civs) {
+      const civ = data.world.civs[civID];
+      civs[civID] = { eliminated: civ.units?.length === 0 && !civsWithCity[civID], ...civ };
+    }
+    return { ...data, world: { ...data.world, civs } };
+  },
+  // 9 -> 10: per-civ stats, which start out empty as older saves kept no history
+  (data) => ({
+    ...data,
+    world: {
+      stats: { history: {}, casualties: {} },
+      ...data.world,
+    },
+  }),
+  // 10 -> 11: capturing cities, where a civ has settled if it owns a city, since none could change hands before
+  (data) => {
+    const civsWithCity = {};
+    for (const city of data.world?.map?.cities ?? []) {
+      civsWithCity[city.civID] = true;
+    }
+    const civs = {};
+    for (const civID in data.world?.civs) {
+      civs[civID] = { hasSettled: !!civsWithCity[civID], ...data.world.civs[civID] };
+    }
+    return { ...data, world: { ...data.world, civs } };
+  },
+];
+
+export const SAVE_FORMAT_VERSION = migrations.length;
+
+const yieldSchema = Schema.object({
+  food: Schema.number(),
+  production: Schema.number(),
+  science: Schema.number(),
+});
+
+const resourceStoreSchema = Schema.object({
+  food: Schema.number(),
+  production: Schema.number(),
+  science: Schema.number(),
+  capacity: Schema.record(Schema.number()),
+});
+
+const improvementSchema = Schema.object({
+  type: Schema.string(),
+  pillaged: Schema.boolean(),
+  isNatural: Schema.boolean(),
+  yield: yieldSchema,
+  storage: resourceStoreSchema,
+  errand: Schema.optional(Schema.object({
+    storedThisTurn: resourceStoreSchema,
+    completed: Schema.boolean(),
+    action: Schema.object({
+      type: Schema.integer(),
+      option: Schema.string(),
+      location: Schema.optional(coordsSchema),
+    }),
+  })),
+});
+
+const tileSchema = Schema.object({
+  type: Schema.string(),
+  elevation: Schema.number(),
+  improvement: Schema.optional(improvementSchema),
+  discoveredBy: Schema.record(Schema.boolean()),
+  baseYield: yieldSchema,
+  knowledges: Schema.record(Schema.number()),
+});
+
+const unitSchema = Schema.object({
+  type: Schema.string(),
+  hp: Schema.number(),
+  movement: Schema.number(),
+  civID: Schema.integer(),
+  coords: coordsSchema,
+  alive: Schema.boolean(),
+});
+
+/**
+ * The shape of a save of the current format version.
+ */
+const saveSchema = Schema.object({
+  formatVersion: Schema.integer(),
+  ruleset: rulesetSchema,
+  world: Schema.object({
+    map: Schema.object({
+      width: Schema.integer(),
+      height: Schema.integer(),
+      tiles: Schema.array(tileSchema),
+      cities: Schema.array(Schema.object({
+        center: coordsSchema,
+        name: Schema.string(),
+        civID: Schema.integer(),
+        original: Schema.boolean(),
+        tiles: Schema.array(coordsSchema),
+      })),
+      traders: Schema.array(Schema.object({
+        civID: Schema.integer(),
+        path: Schema.array(coordsSchema),
+        speed: Schema.number(),
+        length: Schema.number(),
+        expired: Schema.boolean(),
+        turnsElapsed: Schema.integer(),
+        storage: resourceStoreSchema,
+      })),
+    }),
+    civs: Schema.record(Schema.object({
+      units: Schema.array(unitSchema),
+      turnActive: Schema.boolean(),
+      turnFinished: Schema.boolean(),
+      eliminated: Schema.boolean(),
+      hasSettled: Schema.boolean(),
+      undoStack: Schema.array(Schema.object({
+        srcCoords: coordsSchema,
+        dstCoords: coordsSchema,
+        movement: Schema.number(),
+        movementLeft: Schema.number(),
+        hp: Schema.number(),
+        visibility: Schema.array(Schema.object({
+          coords: coordsSchema,
+          visibleTo: Schema.integer(),
+        })),
+      })),
+    })),
+    civsCount: Schema.integer(),
+    leaderPool: Schema.record(Schema.object({
+      id: Schema.integer(),
+      civID: Schema.nullable(Schema.integer()),
+    })),
+    randomState: Schema.number(),
+    stats: Schema.object({
+      history: Schema.record(Schema.array(Schema.object({
+        turn: Schema.integer(),
+        score: Schema.number(),
+        cities: Schema.integer(),
+        units: Schema.integer(),
+        territory: Schema.integer(),
+        yields: yieldSchema,
+        knowledges: Schema.integer(),
+        unitsKilled: Schema.integer(),
+        unitsLost: Schema.integer(),
+        traders: Schema.integer(),
+      }))),
+      casualties: Schema.record(Schema.object({
+        killed: Schema.integer(),
+        lost: Schema.integer(),
+      })),
+    }),
+  }),
+  players: Schema.record(Schema.object({
+    civID: Schema.integer(),
+    hotseatHost: Schema.nullable(Schema.string()),
+  })),
+  chat: Schema.array(Schema.object({
+    channel: Schema.string(),
+    sender: Schema.string(),
+    senderCivID: Schema.nullable(Schema.integer()),
+    text: Schema.string(),
+    time: Schema.number(),
+  })),
+  password: Schema.nullable(Schema.object({
+    salt: Schema.string(),
+    hash: Schema.string(),
+  })),
+  playerCount: Schema.integer(),
+  metaData: Schema.object({
+    gameName: Schema.string(),
+    ownerName: Schema.optional(Schema.string()),
+    playerCount: Schema.integer(),
+    disconnectPolicy: Schema.enum(DISCONNECT_POLICIES),
+    autosaveInterval: Schema.integer(),
+    autosaveKeep: Schema.integer(),
+    turnMode: Schema.enum(TURN_MODES),
+    turnTimeLimit: Schema.number(),
+    turnTimeBonus: Schema.number(),
+    aiFillsEmptySlots: Schema.boolean(),
+    victoryConditions: Schema.array(Schema.enum(VICTORY_CONDITIONS)),
+    scienceVictoryKnowledges: Schema.array(Schema.string()),
+    turnLimit: Schema.integer(),
+    result: Schema.nullable(Schema.object({
+      winner: Schema.nullable(Schema.integer()),
+      reason: Schema.enum(VICTORY_CONDITIONS),
+    })),
+  }),
+  hasStarted: Schema.boolean(),
+  turn: Schema.integer(),
+});
+
+/**
+ * Brings save data of any known format version up to the current one, and checks that it is well-formed.
+ * @returns the upgraded save data
+ * @throws InvalidSaveError if the save is corrupt or from a newer version of the server
+ */
+export const upgradeSave = (data: any): any => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new InvalidSaveError('save must be an object');
+  }
+
+  let version = data.formatVersion ?? 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new InvalidSaveError(`unknown format version ${version}`);
+  }
+  if (version > SAVE_FORMAT_VERSION) {
+    throw new InvalidSaveError(`format version ${version} is newer than this server supports (${SAVE_FORMAT_VERSION})`);
+  }
+
+  for (; version < SAVE_FORMAT_VERSION; version++) {
+    data = migrations[version](data);
+  }
+  data = { ...data, formatVersion: version };
+
+  const reason = validate(saveSchema, data, 'save') ?? validateRuleset(data.ruleset, 'save.ruleset');
+  if (reason) throw new InvalidSaveError(reason);
+  return data;
+};
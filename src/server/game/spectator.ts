@@ -0,0 +1,24 @@
+import * as WebSocket from 'ws';
+import { EventMsg, sendMsg } from '../utils';
+import { MapSync } from './map/sync';
+
+export class Spectator {
+  /** The civ whose view of the map is shown, or null to show the whole map */
+  civID: number | null;
+  mapSync: MapSync;
+  private connection: WebSocket;
+
+  constructor(civID: number | null, connection: WebSocket) {
+    this.civID = civID;
+    this.mapSync = new MapSync();
+    this.connection = connection;
+  }
+
+  isConnectedTo(connection: WebSocket): boolean {
+    return this.connection === connection;
+  }
+
+  send(msg: EventMsg): void {
+    sendMsg(this.connection, msg);
+  }
+}
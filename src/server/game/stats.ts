@@ -0,0 +1,104 @@
+import type { World } from './world';
+
+/**
+ * How a civ stood at the end of a turn.
+ */
+export interface CivStats {
+  turn: number;
+  score: number;
+  cities: number;
+  units: number;
+  /** Number of tiles the civ owns */
+  territory: number;
+  /** What the civ's improvements produced over the turn */
+  yields: { food: number, production: number, science: number };
+  /** Number of knowledges the civ has completed */
+  knowledges: number;
+  /** Enemy units the civ has killed in combat since the game began */
+  unitsKilled: number;
+  /** Units the civ has lost in combat since the game began */
+  unitsLost: number;
+  /** Number of the civ's traders that are still running */
+  traders: number;
+}
+
+/**
+ * The stats of each civ, keyed by civID, with one entry for every turn played in order.
+ */
+export type StatsHistory = { [civID: number]: CivStats[] };
+
+/**
+ * Keeps a record of how every civ did on each turn, so that players can chart the game once it is over.
+ */
+export class Stats {
+  history: StatsHistory;
+  /** Running totals of units killed and lost in combat, which are only written to the history at the end of each turn */
+  private casualties: { [civID: number]: { killed: number, lost: number } };
+
+  constructor() {
+    this.history = {};
+    this.casualties = {};
+  }
+
+  export() {
+    return {
+      history: this.history,
+      casualties: this.casualties,
+    };
+  }
+
+  static import(data: any): Stats {
+    const stats = new Stats();
+    stats.history = data.history;
+    stats.casualties = data.casualties;
+    return stats;
+  }
+
+  /**
+   * Counts a unit of `victimCivID` killed in combat by a unit of `killerCivID`.
+   */
+  recordKill(killerCivID: number, victimCivID: number): void {
+    this.getCasualties(killerCivID).killed++;
+    this.getCasualties(victimCivID).lost++;
+  }
+
+  private getCasualties(civID: number): { killed: number, lost: number } {
+    this.casualties[civID] = this.casualties[civID] ?? { killed: 0, lost: 0 };
+    return this.casualties[civID];
+  }
+
+  /**
+   * Writes down how every civ stands at the end of `turn`.
+   */
+  record(world: World, turn: number): void {
+    for (const civID of Object.keys(world.civs).map(Number)) {
+      const { food, production, science } = world.getCivYield(civID);
+      const { killed, lost } = this.getCasualties(civID);
+      this.history[civID] = this.history[civID] ?? [];
+      this.history[civID].push({
+        turn,
+        score: world.getScore(civID),
+        cities: world.getCivCities(civID).length,
+        units: world.getCivUnits(civID).length,
+        territory: world.getCivTerritory(civID),
+        yields: { food, production, science },
+        knowledges: world.getCivKnowledges(civID).length,
+        unitsKilled: killed,
+        unitsLost: lost,
+        traders: world.map.traders.filter(trader => trader.civID === civID && !trader.expired).length,
+      });
+    }
+  }
+
+  /**
+   * @param civIDs the civs to include, or undefined for every civ
+   */
+  getHistory(civIDs?: number[]): StatsHistory {
+    const history: StatsHistory = {};
+    for (const civID in this.history) {
+      if (civIDs && !civIDs.includes(Number(civID))) continue;
+      history[civID] = this.history[civID];
+    }
+    return history;
+  }
+}
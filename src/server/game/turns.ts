@@ -0,0 +1,16 @@
+/**
+ * What happens to the turn of a civ whose player has disconnected:
+ * - autoFinish: the civ counts as finished, so the other players are not held up
+ * - wait: the turn cannot end until the player reconnects and finishes it
+ * - ai: the civ is handed to the AI until the player reconnects
+ */
+export const DISCONNECT_POLICIES = ['autoFinish', 'wait', 'ai'] as const;
+export type DisconnectPolicy = typeof DISCONNECT_POLICIES[number];
+
+/**
+ * How civs take their turns:
+ * - simultaneous: every civ plays at once, and the turn ends once none are being waited on
+ * - sequential: civs play one at a time, in civID order
+ */
+export const TURN_MODES = ['simultaneous', 'sequential'] as const;
+export type TurnMode = typeof TURN_MODES[number];
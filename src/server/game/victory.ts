@@ -0,0 +1,82 @@
+import { World } from './world';
+
+/**
+ * The ways a game can be won, in the order they are checked in:
+ * - elimination: every other civ has lost all of its units and cities
+ * - domination: one civ owns the first city of every civ, with at least two such cities on the map
+ * - science: a civ has completed every knowledge in the game's science victory set
+ * - score: the game reached its turn limit, and the civ with the highest score wins
+ */
+export const VICTORY_CONDITIONS = ['elimination', 'domination', 'science', 'score'] as const;
+export type VictoryCondition = typeof VICTORY_CONDITIONS[number];
+
+/**
+ * How a game can be won, as chosen when it was created.
+ */
+export interface VictorySettings {
+  victoryConditions: VictoryCondition[];
+  /** The knowledges a civ must complete for a science victory */
+  scienceVictoryKnowledges: string[];
+  /** Number of turns after which the game ends in a score victory, or 0 for no limit */
+  turnLimit: number;
+}
+
+export interface GameResult {
+  /** The civ that won, or null if the game ended in a draw */
+  winner: number | null;
+  reason: VictoryCondition;
+}
+
+const getCivIDs = (world: World): number[] => Object.keys(world.civs).map(Number);
+
+/**
+ * What civs meet each victory condition, given the number of turns played so far.
+ */
+const victoryChecks: Record<VictoryCondition, (world: World, settings: VictorySettings, turn: number) => number[]> = {
+  elimination: (world) => {
+    const civIDs = getCivIDs(world);
+    const remaining = civIDs.filter(civID => !world.isCivDefeated(civID));
+    return civIDs.length > 1 && remaining.length === 1 ? remaining : [];
+  },
+  domination: (world) => {
+    const originalCities = world.map.cities.filter(city => city.original);
+    if (originalCities.length < 2) return [];
+    const { civID } = originalCities[0];
+    return originalCities.every(city => city.civID === civID) ? [civID] : [];
+  },
+  science: (world, { scienceVictoryKnowledges }) => {
+    if (scienceVictoryKnowledges.length === 0) return [];
+    return getCivIDs(world).filter((civID) => {
+      const knowledges = world.getCivKnowledges(civID);
+      return scienceVictoryKnowledges.every(name => knowledges.includes(name));
+    });
+  },
+  score: (world, { turnLimit }, turn) => {
+    if (turnLimit <= 0 || turn < turnLimit) return [];
+    return getCivIDs(world).filter(civID => !world.isCivDefeated(civID));
+  },
+};
+
+/**
+ * @returns the civ with the highest score of `civIDs`, or null if several share it
+ */
+const pickWinner = (world: World, civIDs: number[]): number | null => {
+  const scores = civIDs.map(civID => world.getScore(civID));
+  const highScore = Math.max(...scores);
+  const leaders = civIDs.filter((civID, i) => scores[i] === highScore);
+  return leaders.length === 1 ? leaders[0] : null;
+};
+
+/**
+ * Checks whether the game is over, once a turn has been played. Civs that win in the same way at once are told apart by score.
+ * @param turn the number of turns played so far
+ * @returns how the game ended, or null if it goes on
+ */
+export const checkVictory = (world: World, settings: VictorySettings, turn: number): GameResult | null => {
+  for (const reason of VICTORY_CONDITIONS) {
+    if (!settings.victoryConditions.includes(reason)) continue;
+    const civIDs = victoryChecks[reason](world, settings, turn);
+    if (civIDs.length > 0) return { winner: pickWinner(world, civIDs), reason };
+  }
+  return null;
+};
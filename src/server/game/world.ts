@@ -1,9 +1,14 @@
 import { Map } from './map';
-import { Unit } from './map/tile/unit';
-import { Civilization, CivilizationData } from './civilization';
-import { Event } from '../utils';
+import { PromotionClass, Unit } from './map/tile/unit';
+import { City } from './map/tile/city';
+import { Civilization, CivilizationData, UndoableMove } from './civilization';
+import { Event, mod } from '../utils';
 import { Random } from '../utils/random';
 import { Leader, LeaderData, leaderTemplates } from './leader';
+import type { Ruleset } from './ruleset';
+import { checkVictory, GameResult, VictorySettings } from './victory';
+import { Stats } from './stats';
+import { Yield } from './map/tile/yield';
 
 export interface Coords {
   x: number;
@@ -17,64 +22,98 @@ export class World {
   civs: { [civID: number]: Civilization };
   civsCount: number;
   leaderPool: { [leaderID: number]: Leader };
-  updates: { (civID: number): Event }[];
-
-  constructor(map?: Map, civsCount?: number) {
+  updates: { (civID: number | null): Event }[];
+  /** Civs eliminated since the game last took them with `takeEliminatedCivs` */
+  private newlyEliminated: number[];
+  /** Every gameplay roll goes through this, so that loading a save and replaying the same actions gives the same results */
+  random: Random;
+  stats: Stats;
+
+  constructor(map?: Map, civsCount?: number, seed?: number) {
     this.updates = [];
+    this.newlyEliminated = [];
 
     if (!(map && civsCount)) {
       return
     }
     this.map = map;
+    // Map seeds can be far larger than the generator's modulus
+    this.random = new Random(mod(seed ?? Math.floor(Math.random() * 2147483648), 2147483648));
 
     this.civsCount = civsCount;
     this.civs = {};
     this.leaderPool = {};
+    this.stats = new Stats();
 
     for (let civID = 0; civID < this.civsCount; civID++) {
-      this.civs[civID] = new Civilization();
-
-      const random = new Random(42);
-      let start_location_successful = false;
-      for (let i = 0; i < 1000; i++) {
-        const x = random.randInt(0, map.width-1);
-        const y = random.randInt(0, map.height-1);
-
-        const settler_coords = { x, y };
-        const builder_coords = { x: x + 1, y: y + 1 };
-        const   scout_coords = { x: x - 1, y: y + 1 };
-
-        let legal_start_location = true;
-        for (const coords of [settler_coords, builder_coords, scout_coords]) {
-          const tile = this.map.getTile(coords);
-          if (!tile || tile.unit || !this.map.canSettleOn(tile)) {
-            legal_start_location = false;
-            break;
-          }
-        }
+      this.createCiv(civID);
+    }
+
+    for (let i = 0; i < leaderTemplates.length; i++) {
+      this.leaderPool[i] = new Leader(i);
+    }
+
+
+    // this.colorPool = colorList.reduce((obj: { [color: string]: boolean }, color: string) => ({...obj, [color]: true}), {});
+  }
+
+  // map, civs
+  private createCiv(civID: number): void {
+    this.civs[civID] = new Civilization();
+
+    let start_location_successful = false;
+    for (let i = 0; i < 1000; i++) {
+      const x = this.random.randInt(0, this.map.width-1);
+      const y = this.random.randInt(0, this.map.height-1);
+
+      const settler_coords = { x, y };
+      const builder_coords = { x: x + 1, y: y + 1 };
+      const   scout_coords = { x: x - 1, y: y + 1 };
 
-        if (legal_start_location) {
-          this.addUnit(new Unit('settler', civID, settler_coords));
-          this.addUnit(new Unit('builder', civID, builder_coords));
-          this.addUnit(new Unit('scout', civID, scout_coords));
-          start_location_successful = true;
+      let legal_start_location = true;
+      for (const coords of [settler_coords, builder_coords, scout_coords]) {
+        const tile = this.map.getTile(coords);
+        if (!tile || tile.unit || !this.map.canSettleOn(tile)) {
+          legal_start_location = false;
           break;
         }
       }
 
-      if (!start_location_successful) {
-        console.error("Error: couldn't find legal start location! (gave up after 1000 tries)");
+      if (legal_start_location) {
+        this.addUnit(new Unit('settler', civID, settler_coords, this.map.ruleset));
+        this.addUnit(new Unit('builder', civID, builder_coords, this.map.ruleset));
+        this.addUnit(new Unit('scout', civID, scout_coords, this.map.ruleset));
+        start_location_successful = true;
+        break;
       }
-
-      this.updateCivTileVisibility(civID);
     }
 
-    for (let i = 0; i < leaderTemplates.length; i++) {
-      this.leaderPool[i] = new Leader(i);
+    if (!start_location_successful) {
+      console.error("Error: couldn't find legal start location! (gave up after 1000 tries)");
     }
 
+    this.updateCivTileVisibility(civID);
+  }
 
-    // this.colorPool = colorList.reduce((obj: { [color: string]: boolean }, color: string) => ({...obj, [color]: true}), {});
+  // map, civs
+  addCiv(): void {
+    this.createCiv(this.civsCount);
+    this.civsCount++;
+  }
+
+  // map, civs, leaders
+  removeLastCiv(): void {
+    const civID = this.civsCount - 1;
+    const civ = this.civs[civID];
+    civ.leader?.unselect();
+    for (const unit of civ.units) {
+      this.map.getTile(unit.coords).setUnit(undefined);
+    }
+    this.map.forEachTile((tile) => {
+      tile.forgetCiv(civID);
+    });
+    delete this.civs[civID];
+    this.civsCount--;
   }
 
   export() {
@@ -89,35 +128,40 @@ export class World {
       civs: exportedCivs,
       civsCount: this.civsCount,
       leaderPool: this.leaderPool,
+      randomState: this.random.getState(),
+      stats: this.stats.export(),
     };
   }
 
-  static import(data: any): World {
+  static import(data: any, ruleset: Ruleset): World {
     const world = new World();
-    world.map = Map.import(data.map);
+    world.map = Map.import(data.map, ruleset);
     world.civs = {};
     for (const civID in data.civs) {
       const civData = data.civs[civID];
       world.civs[civID] = Civilization.import(civData);
-      const units = civData.units.map(unitData => Unit.import(unitData));
+      const units = civData.units.map(unitData => Unit.import(unitData, ruleset));
       for (const unit of units) {
         world.addUnit(unit);
       }
       world.updateCivTileVisibility(Number(civID));
     }
     world.civsCount = data.civsCount;
+    world.random = new Random(data.randomState);
+    world.stats = Stats.import(data.stats);
     world.leaderPool = {};
     for (const leaderID in data.leaderPool) {
       const leaderData = data.leaderPool[leaderID];
-      world.leaderPool[leaderID] = Leader.import(leaderData);
+      const leader = Leader.import(leaderData);
+      world.leaderPool[leaderID] = leader;
       if (leaderData.civID !== null) {
-        world.setCivLeader(leaderData.civID, Number(leaderID));
+        world.civs[leaderData.civID].leader = leader;
       }
     }
     return world;
   }
 
-  getUpdates(): { (civID: number): Event }[] {
+  getUpdates(): { (civID: number | null): Event }[] {
     // TODO: more updates?
     return this.map.getUpdates().concat(this.updates.splice(0));
   }
@@ -154,6 +198,12 @@ export class World {
     }
   }
 
+  // leaders, civs
+  unsetCivLeader(civID: number): void {
+    this.civs[civID].leader?.unselect();
+    this.civs[civID].leader = undefined;
+  }
+
   // civs
   getCiv(civID: number): Civilization {
     return this.civs[civID];
@@ -223,14 +273,268 @@ export class World {
     this.map.getTile(unit.coords).setUnit(undefined);
     // TODO: make this more intelligent
     this.updateCivTileVisibility(unit.civID)
-    this.updates.push((civID) => ['setMap', [this.map.getCivMap(civID)]]);
+    // The visibility counters the civ's undoable moves would restore no longer account for this unit
+    this.civs[unit.civID].undoStack = [];
+    this.map.mapUpdate();
+    this.checkCivEliminated(unit.civID);
+  }
+
+  // map, civs
+  /**
+   * Eliminates `civID` if it has lost all of its units and cities, and tells everyone which leader is out.
+   * This runs whenever a civ loses a unit or a city.
+   * @returns whether the civ was eliminated just now
+   */
+  checkCivEliminated(civID: number): boolean {
+    const civ = this.civs[civID];
+    if (civ.eliminated || !this.isCivDefeated(civID)) return false;
+
+    civ.eliminate();
+    this.newlyEliminated.push(civID);
+    const leaderName = civ.leader?.getData().name ?? null;
+    this.updates.push(() => ['civEliminated', [civID, leaderName]]);
+    return true;
+  }
+
+  /**
+   * @returns the civs eliminated since this was last called, so that the game can stop waiting on their players
+   */
+  takeEliminatedCivs(): number[] {
+    return this.newlyEliminated.splice(0);
+  }
+
+  // map, civs
+  /**
+   * Places a new unit of `type` on `coords` for `civID`, outside of the usual training, such as when an admin gives one.
+   * @returns the unit, or null if there is no such unit type or the tile is out of bounds or occupied
+   */
+  spawnUnit(type: string, civID: number, coords: Coords): Unit | null {
+    if (!(type in this.map.ruleset.unit.movementTable) || !this.map.isInBounds(coords) || this.map.getTile(coords).unit) return null;
+
+    const unit = new Unit(type, civID, coords, this.map.ruleset);
+    this.addUnit(unit);
+    this.updateCivTileVisibility(civID);
+    this.civs[civID].undoStack = [];
+    this.map.tileUpdate(coords);
+    return unit;
+  }
+
+  // map
+  /**
+   * Moves `unit` along `path` for as long as it has the movement to, stopping before any occupied tile.
+   * A melee unit that walks into an enemy city captures it, which ends its move.
+   * @returns the coords the unit ended up on, whether the move let its civ see any tile it could not see before, and whether it captured a city
+   */
+  moveUnitAlong(unit: Unit, path: Coords[]): [Coords, boolean, boolean] {
+    let revealed = false;
+    let captured = false;
+    for (const dstCoords of path) {
+      const dst = this.map.getTile(dstCoords);
+      if (!dst || dst.unit || !(unit.movement >= dst.getMovementCost(unit))) break;
+
+      unit.movement -= dst.getMovementCost(unit);
+      if (this.map.moveUnitTo(unit, dstCoords)) revealed = true;
+
+      const city = dst.owner;
+      if (unit.promotionClass === PromotionClass.MELEE && city && city.civID !== unit.civID && this.map.pos(city.center) === this.map.pos(dstCoords)) {
+        this.captureCity(city, unit.civID);
+        unit.movement = 0;
+        captured = true;
+        break;
+      }
+    }
+
+    return [unit.coords, revealed, captured];
+  }
+
+  // map, civs
+  /**
+   * Hands `city` and all of its tiles over to `civID`, eliminating its old owner if that was all it had left.
+   * Its old owner's traders running through those tiles stop.
+   */
+  captureCity(city: City, civID: number): void {
+    const oldCivID = city.civID;
+    city.civID = civID;
+
+    const cityPositions = new Set<number>();
+    for (const coords of city.getTiles()) {
+      cityPositions.add(this.map.pos(coords));
+      this.map.tileUpdate(coords);
+    }
+    for (const trader of this.map.traders) {
+      if (trader.civID === oldCivID && trader.path.some(coords => cityPositions.has(this.map.pos(coords)))) {
+        trader.expire();
+      }
+    }
+
+    this.updateCivTileVisibility(oldCivID);
+    this.updateCivTileVisibility(civID);
+    // The visibility counters the civs' undoable moves would restore no longer account for the city's tiles
+    this.civs[oldCivID].undoStack = [];
+    this.civs[civID].undoStack = [];
+    this.map.mapUpdate();
+    this.checkCivEliminated(oldCivID);
+  }
+
+  // map
+  /**
+   * Attacks `defender` with `attacker`, if it is able to and has movement left.
+   * @returns whether the attack happened
+   */
+  attackWith(attacker: Unit, defender: Unit): boolean {
+    if (attacker.movement <= 0 || !this.map.canUnitAttack(attacker, defender)) return false;
+
+    if (attacker.promotionClass === PromotionClass.RANGED) {
+      this.rangedCombat(attacker, defender);
+    } else {
+      this.meleeCombat(attacker, defender);
+    }
+    attacker.movement = 0;
+    return true;
+  }
+
+  // map, civs
+  /**
+   * Carries out a player's order to attack `targetCoords` with their unit on `srcCoords`.
+   * @returns the attacking unit, or undefined if `civID` has no unit on `srcCoords`
+   */
+  orderAttack(civID: number, srcCoords: Coords, targetCoords: Coords): Unit | undefined {
+    const unit = this.map.getTile(srcCoords)?.unit;
+    if (!unit || unit.civID !== civID) return undefined;
+
+    const target = this.map.getTile(targetCoords)?.unit;
+    if (target) {
+      this.attackWith(unit, target);
+      this.civs[civID].undoStack = [];
+    }
+    return unit;
+  }
+
+  // map, civs
+  /**
+   * Carries out a player's order to move their unit on `srcCoords` along `path`, attacking whatever is at its end if `attack` is set.
+   * @returns the coords the unit ended up on, or null if `civID` has no unit on `srcCoords`
+   */
+  orderMove(civID: number, srcCoords: Coords, path: Coords[], attack: boolean): Coords | null {
+    const unit = this.map.getTile(srcCoords)?.unit;
+    if (!unit || unit.civID !== civID) return null;
+
+    const civ = this.civs[civID];
+    const { movement } = unit;
+    const srcVisibility = this.map.getVisibleTilesCoords(unit)
+      .map(coords => ({ coords, visibleTo: this.map.getTile(coords).visibleTo[civID] }));
+    const [finalCoords, revealed, captured] = this.moveUnitAlong(unit, path);
+
+    let fought = false;
+    if (attack && !captured) {
+      const target = this.map.getTile(path[path.length - 1])?.unit;
+      if (target && unit.isAdjacentTo(target.coords)) {
+        this.meleeCombat(unit, target);
+        unit.movement = 0;
+        fought = true;
+      }
+    }
+
+    // Taking back a move that showed the player something new would let them scout for free
+    if (fought || revealed || captured) {
+      civ.undoStack = [];
+    } else if (this.map.pos(finalCoords) !== this.map.pos(srcCoords)) {
+      civ.undoStack.push(this.getUndoableMove(unit, srcCoords, movement, srcVisibility));
+    }
+
+    return finalCoords;
+  }
+
+  /**
+   * Describes the move `unit` just made, which did not reveal anything.
+   */
+  private getUndoableMove(unit: Unit, srcCoords: Coords, movement: number, srcVisibility: UndoableMove['visibility']): UndoableMove {
+    const srcPositions = new Set(srcVisibility.map(({ coords }) => this.map.pos(coords)));
+    // Every tile seen only from the destination was already visible, and the unit added one to its counter
+    const dstVisibility = this.map.getVisibleTilesCoords(unit)
+      .filter(coords => !srcPositions.has(this.map.pos(coords)))
+      .map(coords => ({ coords, visibleTo: this.map.getTile(coords).visibleTo[unit.civID] - 1 }));
+
+    return {
+      srcCoords,
+      dstCoords: unit.coords,
+      movement,
+      movementLeft: unit.movement,
+      hp: unit.hp,
+      visibility: [...srcVisibility, ...dstVisibility],
+    };
+  }
+
+  // map, civs
+  /**
+   * Takes back `civID`'s last move this turn. Moves can only be taken back in order, and not once the unit did anything else.
+   * @returns the coords the unit moved back from and to, or null if there is no move to take back
+   */
+  undoMove(civID: number): [Coords, Coords] | null {
+    const civ = this.civs[civID];
+    const move = civ.undoStack.pop();
+    if (!move) return null;
+
+    const dst = this.map.getTile(move.dstCoords);
+    const src = this.map.getTile(move.srcCoords);
+    const unit = dst.unit;
+    if (!unit || unit.civID !== civID || unit.movement !== move.movementLeft || unit.hp !== move.hp || src.unit) {
+      civ.undoStack = [];
+      return null;
+    }
+
+    dst.setUnit(undefined);
+    unit.coords = move.srcCoords;
+    src.setUnit(unit);
+    unit.movement = move.movement;
+    this.map.tileUpdate(move.dstCoords);
+    this.map.tileUpdate(move.srcCoords);
+
+    for (const { coords, visibleTo } of move.visibility) {
+      this.map.getTile(coords).visibleTo[civID] = visibleTo;
+      this.map.tileUpdate(coords);
+    }
+
+    return [move.dstCoords, move.srcCoords];
+  }
+
+  // map, civs
+  /**
+   * Carries out a player's order to found a city with their settler on `coords`.
+   * @returns whether the city was founded
+   */
+  orderSettleCity(civID: number, coords: Coords, name: string): boolean {
+    const unit = this.map.getTile(coords)?.unit;
+    if (unit?.type !== 'settler' || unit.civID !== civID) return false;
+
+    const civ = this.civs[civID];
+    if (!this.map.settleCityAt(coords, name, civID, !civ.hasSettled)) return false;
+    civ.hasSettled = true;
+    this.removeUnit(unit);
+    civ.undoStack = [];
+    return true;
+  }
+
+  // map
+  /**
+   * Carries out a player's order to start building an improvement with their builder on `coords`.
+   * @returns whether construction started
+   */
+  orderConstruction(civID: number, coords: Coords, type: string): boolean {
+    const tile = this.map.getTile(coords);
+    const unit = tile?.unit;
+    if (unit?.type !== 'builder' || unit.civID !== civID || tile.improvement) return false;
+
+    this.map.startConstructionAt(coords, type, civID);
+    this.civs[civID].undoStack = [];
+    return true;
   }
 
   rangedCombat(attacker: Unit, defender: Unit): void {
     const [attackerOffense, attackerDefense, attackerAwareness] = attacker.combatStats;
     const [defenderOffense, defenderDefense, defenderAwareness] = defender.combatStats;
-    const attackerInitiative = Math.random() * (attackerAwareness * 6);
-    const defenderInitiative = Math.random() * (defenderAwareness);
+    const attackerInitiative = this.random.randFloat(attackerAwareness * 6);
+    const defenderInitiative = this.random.randFloat(defenderAwareness);
 
     const defenderCanAttack = this.map.canUnitAttack(defender, attacker);
 
@@ -254,8 +558,14 @@ export class World {
 
     }
 
-    if (attacker.isDead()) this.removeUnit(attacker);
-    if (defender.isDead()) this.removeUnit(defender);
+    if (attacker.isDead()) {
+      this.stats.recordKill(defender.civID, attacker.civID);
+      this.removeUnit(attacker);
+    }
+    if (defender.isDead()) {
+      this.stats.recordKill(attacker.civID, defender.civID);
+      this.removeUnit(defender);
+    }
 
     this.map.tileUpdate(attacker.coords);
     this.map.tileUpdate(defender.coords);
@@ -265,8 +575,8 @@ export class World {
   meleeCombat(attacker: Unit, defender: Unit): void {
     const [attackerOffense, attackerDefense, attackerAwareness] = attacker.combatStats;
     const [defenderOffense, defenderDefense, defenderAwareness] = defender.combatStats;
-    const attackerInitiative = Math.random() * (attackerAwareness * 1.5);
-    const defenderInitiative = Math.random() * (defenderAwareness);
+    const attackerInitiative = this.random.randFloat(attackerAwareness * 1.5);
+    const defenderInitiative = this.random.randFloat(defenderAwareness);
 
     if (attackerInitiative > defenderInitiative) {
 
@@ -286,14 +596,95 @@ export class World {
 
     }
 
-    if (attacker.isDead()) this.removeUnit(attacker);
-    if (defender.isDead()) this.removeUnit(defender);
+    if (attacker.isDead()) {
+      this.stats.recordKill(defender.civID, attacker.civID);
+      this.removeUnit(attacker);
+    }
+    if (defender.isDead()) {
+      this.stats.recordKill(attacker.civID, defender.civID);
+      this.removeUnit(defender);
+    }
 
     this.map.tileUpdate(attacker.coords);
     this.map.tileUpdate(defender.coords);
   }
 
-  turn(): void {
+  // map
+  /**
+   * @returns the cities `civID` owns
+   */
+  getCivCities(civID: number): City[] {
+    return this.map.cities.filter(city => city.civID === civID);
+  }
+
+  // map
+  /**
+   * @returns the names of the knowledges completed on any tile `civID` owns
+   */
+  getCivKnowledges(civID: number): string[] {
+    const knowledges = new Set<string>();
+    this.map.forEachTile((tile) => {
+      if (tile.owner?.civID !== civID) return;
+      for (const name of tile.getKnowledges(true)) {
+        knowledges.add(name);
+      }
+    });
+    return [...knowledges];
+  }
+
+  // map, civs
+  /**
+   * @returns whether `civID` has lost all of its units and cities
+   */
+  isCivDefeated(civID: number): boolean {
+    return this.civs[civID].units.length === 0 && this.getCivCities(civID).length === 0;
+  }
+
+  // map
+  /**
+   * @returns the number of tiles `civID` owns
+   */
+  getCivTerritory(civID: number): number {
+    let territory = 0;
+    this.map.forEachTile((tile) => {
+      if (tile.owner?.civID === civID) territory++;
+    });
+    return territory;
+  }
+
+  // map
+  /**
+   * @returns what the improvements on the tiles `civID` owns produce each turn
+   */
+  getCivYield(civID: number): Yield {
+    const total = new Yield({});
+    this.map.forEachTile((tile) => {
+      if (tile.owner?.civID === civID && tile.improvement) total.incr(tile.improvement.yield);
+    });
+    return total;
+  }
+
+  // map, civs
+  /**
+   * @returns how well `civID` is doing, counting its cities, territory, units and completed knowledges
+   */
+  getScore(civID: number): number {
+    return (
+      10 * this.getCivCities(civID).length +
+      this.getCivTerritory(civID) +
+      2 * this.civs[civID].units.length +
+      5 * this.getCivKnowledges(civID).length
+    );
+  }
+
+  /**
+   * Runs the end-of-turn updates and writes down every civ's stats, then checks whether anyone has won.
+   * @param turn the number of turns played, counting this one
+   * @returns how the game ended, or null if it goes on
+   */
+  turn(victorySettings: VictorySettings, turn: number): GameResult | null {
     this.map.turn(this);
+    this.stats.record(this, turn);
+    return checkVictory(this, victorySettings, turn);
   }
 }
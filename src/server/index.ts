@@ -10,13 +10,21 @@ app.use(`${ADDR_PREFIX}`, express.static(path.join(__dirname, '../client')));
 app.use(`${ADDR_PREFIX}/src`, express.static(path.join(__dirname, '../../src'))); // FOR DEBUGGING - REMOVE IN PRODUCTION!
 app.use(`${ADDR_PREFIX}/docs`, express.static(path.join(__dirname, '../docs')));
 
+import { createAdminAPI, healthCheck } from './api';
+app.get(`${ADDR_PREFIX}/health`, healthCheck);
+app.use(`${ADDR_PREFIX}/api/admin`, createAdminAPI());
+
 const server = app.listen(PORT, () => {
   console.log(`Server listening at http://localhost:${PORT}`);
 });
 
 const wss = new WebSocket.Server({ server });
 
-import { executeAction, connections, connData, getConnData } from './methods';
+import { executeAction, closeConnection, connections, connData, getConnData } from './methods';
+import { registry } from './registry';
+import { ADMIN_SOCKET, startAdminServer } from './admin';
+import { metrics } from './metrics';
+import { checkAllRulesets } from './game/consistency';
 import { EventMsg } from './utils';
 
 wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
@@ -26,10 +34,14 @@ wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
     ws: ws,
     ip: req.socket.remoteAddress,
     username: null,
+    sessionToken: null,
     gameID: null,
+    spectating: false,
+    replay: null,
   });
 
   ws.on('message', (message: string) => {
+    metrics.recordMessageReceived(Buffer.byteLength(message));
     let data: EventMsg;
 
     try {
@@ -42,13 +54,55 @@ wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
 
     console.log('received:', data);
 
-    if (data.actions) {
+    if (Array.isArray(data.actions)) {
       for (let i = 0; i < data.actions.length; i++) {
-        const action = data.actions[i][0];
-        const args = data.actions[i][1];
+        if (!Array.isArray(data.actions[i])) {
+          ws.send(JSON.stringify({error: [['badAction', [null, 'action must be an array']]]}));
+          continue;
+        }
+
+        const [action, args, requestID] = data.actions[i];
 
-        executeAction(ws, action, ...args);
+        metrics.recordAction();
+        executeAction(ws, action, args, requestID);
       }
     }
   });
+
+  ws.on('close', () => {
+    closeConnection(ws);
+  });
+});
+
+const adminServer = startAdminServer(registry).then((adminServer) => {
+  console.log(`Admin commands accepted at ${ADMIN_SOCKET}`);
+  return adminServer;
+}, (err) => {
+  console.error('Could not start the admin server:', err);
+  return null;
 });
+
+checkAllRulesets().then((results) => {
+  for (const name in results) {
+    for (const issue of results[name]) {
+      console.warn(`Ruleset ${name}: ${issue}`);
+    }
+  }
+}).catch((err) => console.error('Could not check the rulesets:', err));
+
+setInterval(() => {
+  registry.unloadIdleGames().catch((err) => console.error(err));
+}, 60 * 1000);
+
+const shutdown = async () => {
+  console.log('Saving games before shutting down...');
+  (await adminServer)?.close();
+  try {
+    await registry.saveAll();
+  } catch (err) {
+    console.error(err);
+  }
+  process.exit(0);
+};
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
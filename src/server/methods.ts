@@ -1,85 +1,125 @@
 import * as WebSocket from 'ws';
 import { Player } from './game/player';
-import { Map, MapOptions } from './game/map';
-import { Game } from './game';
-import { PerlinWorldGenerator, WorldGenerator } from './game/map/generator';
-import { PromotionClass } from './game/map/tile/unit';
+import { MapOptions } from './game/map';
+import { checkGameOptions, checkPlayerCount, Game, GameOptions } from './game';
+import { ChatChannel, MAX_MESSAGE_LENGTH } from './game/chat';
+import { InvalidSaveError } from './game/saves';
+import { InvalidRulesetError } from './game/ruleset';
+import { Replayer } from './game/replay';
+import { Bounds, getChunksInBounds, MAX_SUBSCRIBED_CHUNKS } from './game/map/sync';
+import { actionSchemas, ActionName, isActionName, journaledActions, spectatorActions } from './actions';
+import { validateArgs } from './utils/schema';
+import { EventMsg, sendMsg, withRequest } from './utils';
+import { accounts, checkPassword, hashPassword } from './auth';
+import { registry } from './registry';
 
 interface ConnectionData {
   ws: WebSocket,
   ip?: string,
   username: string | null,
+  sessionToken: string | null,
   gameID: number | null,
+  spectating: boolean,
+  /** The replay this connection is watching, if any */
+  replay: Replayer | null,
 }
 
 export const connections: WebSocket[] = [];
 export const connData: ConnectionData[] = [];
 
-const sendTo = (ws: WebSocket, msg: { [key: string]: unknown }) => {
-  ws.send(JSON.stringify(msg));
+const sendTo = (ws: WebSocket, msg: EventMsg) => {
+  sendMsg(ws, msg);
 };
 
-export const games: { [gameID: number] : Game } = {
-  0: new Game(
-    // new Map(38, 38, JSON.parse(fs.readFileSync( path.join(__dirname, 'saves/0.json') ).toString()).map),
-    // new Map(38, 38, ...new WorldGenerator(3634, 38, 38).generate(0.5, 0.9, 1)),
-    new PerlinWorldGenerator(1, { width: 20, height: 20 }).generate(),
-    {
-      gameName: 'singleplayer unsaved test',
-      playerCount: 1,
-    }
-  ),
-  // 1: new Game(
-  //   // new Map(38, 38, JSON.parse(fs.readFileSync( path.join(__dirname, 'saves/0.json') ).toString()).map),
-  //   // new Map(38, 38, ...new WorldGenerator(3634, 38, 38).generate(0.5, 0.9, 1)),
-  //   new PerlinWorldGenerator(1, { width: 20, height: 20 }).generate(),
-  //   {
-  //     gameName: 'singleplayer test',
-  //     playerCount: 1,
-  //   }
-  // ),
-  // 2: new Game(
-  //   // new Map(38, 38, JSON.parse(fs.readFileSync( path.join(__dirname, 'saves/0.json') ).toString()).map),
-  //   // new Map(38, 38, ...new WorldGenerator(3634, 38, 38).generate(0.5, 0.9, 1)),
-  //   new PerlinWorldGenerator(1, { width: 20, height: 20 }).generate(),
-  //   {
-  //     gameName: 'multiplayer test',
-  //     playerCount: 2,
-  //   }
-  // ),
-};
-// games[1].save();
-// games[2].save();
-(async () => {
-  games[1] = await Game.load('singleplayer test')
-  // games[2] = await Game.load('no units test')
-  games[2] = await Game.load('multiplayer test')
-})()
-
-const createGame = (username: string, playerCount: number, mapOptions: MapOptions, options: { seed?: number, gameName?: string }) => {
-  const newID = Object.keys(games)[Object.keys(games).length - 1] + 1;
-  games[newID] = new Game(
-    new PerlinWorldGenerator(options.seed ?? Math.floor(Math.random() * 9007199254740991), mapOptions).generate(),
-    {
-      playerCount,
-      ownerName: username,
-      gameName: options.gameName,
-    }
-  );
-};
+/** Games currently loaded in memory; the registry also knows about the games that are only saved on disk */
+const games = registry.games;
 
 export const getConnData = (ws: WebSocket): ConnectionData => {
   const connIndex = connections.indexOf(ws);
   return connData[connIndex];
 };
 
-const getUsername = (ws: WebSocket): string => {
+const sendGameListToLobby = () => {
+  const gameList = registry.getGameList();
+
+  for (const conn of connData) {
+    if (conn.gameID === null) {
+      sendTo(conn.ws, {
+        update: [
+          ['gameList', [gameList]],
+        ],
+      });
+    }
+  }
+};
+
+/**
+ * Detaches `conn` from the game it is in, if its Player is still played through this connection.
+ */
+const leaveGame = (conn: ConnectionData) => {
+  const { ws, username, gameID, spectating } = conn;
+  conn.gameID = null;
+  conn.spectating = false;
+  conn.replay = null;
+  if (username === null || gameID === null) return;
+
+  const game = games[gameID];
+  if (spectating) {
+    if (game?.spectators[username]?.isConnectedTo(ws)) {
+      game.removeSpectator(username);
+    }
+    return;
+  }
+
+  const player = game?.getPlayer(username);
+  if (player?.isConnectedTo(ws)) {
+    game.disconnectPlayer(username);
+  }
+};
+
+/**
+ * Sends everyone in the game with ID `gameID` back to the lobby, then saves and unloads it, such as when an admin shuts it down.
+ * The game can be joined again afterwards, which loads it back in.
+ */
+export const shutDownGame = async (gameID: number) => {
+  for (const conn of connData) {
+    if (conn.gameID === gameID) {
+      leaveGame(conn);
+      sendTo(conn.ws, { error: [
+        ['kicked', ['The game was shut down by an admin']],
+      ] });
+    }
+  }
+  await registry.unload(gameID);
+
+  sendGameListToLobby();
+};
+
+/**
+ * Forgets a closed connection, disconnecting its player from any game it was in.
+ */
+export const closeConnection = (ws: WebSocket) => {
   const connIndex = connections.indexOf(ws);
-  const username = connData[connIndex].username;
-  if (!username) {
+  if (connIndex === -1) return;
+
+  const conn = connData[connIndex];
+  connections.splice(connIndex, 1);
+  connData.splice(connIndex, 1);
+  if (conn.gameID !== null) {
+    leaveGame(conn);
+    sendGameListToLobby();
+  }
+};
+
+/**
+ * @returns the username of the account logged in on `ws`. This is only ever a name backed by a valid session token.
+ */
+const getUsername = (ws: WebSocket): string => {
+  const { username, sessionToken } = getConnData(ws);
+  if (!username || accounts.getSessionUser(sessionToken) !== username) {
     sendTo(ws, {
       error: [
-        ['invalidUsername', ['username is null; please provide a username.']],
+        ['invalidUsername', ['not logged in; please log in.']],
       ],
     });
     throw 'Invalid Username';
@@ -91,7 +131,7 @@ const getUsername = (ws: WebSocket): string => {
 const getGameID = (ws: WebSocket): number => {
   const connIndex = connections.indexOf(ws);
   const gameID = connData[connIndex].gameID;
-  if (!gameID) {
+  if (gameID === null) {
     sendTo(ws, {
       error: [
         ['invalidGameID', ['gameID is null; please provide a gameID.']],
@@ -103,21 +143,255 @@ const getGameID = (ws: WebSocket): number => {
   }
 };
 
-export const executeAction = (ws: WebSocket, action: string, ...args: unknown[]) => {
+/**
+ * @returns the game `ws` is looking at, which is the replay it is watching if there is one
+ */
+const getViewedGame = (ws: WebSocket): Game => {
+  return getConnData(ws).replay?.game ?? games[getGameID(ws)];
+};
+
+/**
+ * Loads the game a connection wants to join, sending an error if that is impossible.
+ */
+const loadGame = async (ws: WebSocket, gameID: number): Promise<Game | undefined> => {
+  let game: Game | undefined;
   try {
-    methods[action](ws, ...args);
-  } catch(error) {
-    console.error(error);
+    game = await registry.load(gameID);
+  } catch (err) {
+    if (!(err instanceof InvalidSaveError)) throw err;
+    sendTo(ws, { error: [
+      ['invalidSave', [err.message]],
+    ] });
+    return undefined;
+  }
+
+  if (!game) {
+    sendTo(ws, { error: [
+      ['invalidGameID', ['That game does not exist']],
+    ] });
+  }
+  return game;
+};
+
+/**
+ * Catches up a player who just joined `game` as `username`.
+ */
+const sendPlayerState = (ws: WebSocket, game: Game, username: string, isRejoin: boolean) => {
+  const { civID } = game.getPlayer(username);
+  sendTo(ws, {
+    update: [
+      ['civID', [ civID ]],
+      ['chatHistory', [ game.chat.getVisibleMessages(civID) ]],
+    ]
+  });
+
+  if (isRejoin && game.hasStarted) {
+    game.startGame(game.getPlayer(username));
+  } else {
+    sendTo(ws, {
+      update: [
+        ['leaderPool', [ ...game.world.getLeaderPool(), game.getPlayersData() ]],
+      ],
+    });
   }
 };
 
+/**
+ * Sends a `notOwner` error unless `username` owns `game`.
+ */
+const checkOwner = (ws: WebSocket, game: Game, username: string): boolean => {
+  if (game.isOwner(username)) return true;
+
+  sendTo(ws, {
+    error: [
+      ['notOwner', ['Only the owner of this game can do that']],
+    ],
+  });
+  return false;
+};
+
+/**
+ * Sends a `wrongPassword` error unless `password` unlocks `game`. Games without a password accept anything.
+ */
+const checkGamePassword = async (ws: WebSocket, game: Game, password?: string): Promise<boolean> => {
+  if (!game.password) return true;
+  if (password !== undefined && await checkPassword(password, game.password)) return true;
+
+  sendTo(ws, {
+    error: [
+      ['wrongPassword', ['Incorrect game password']],
+    ],
+  });
+  return false;
+};
+
+export const executeAction = (ws: WebSocket, action: unknown, args: unknown, requestID?: unknown) => {
+  if (requestID !== undefined && !Number.isInteger(requestID)) {
+    sendTo(ws, {
+      error: [
+        ['badAction', [action, 'requestID must be an integer']],
+      ],
+    });
+    return;
+  }
+
+  withRequest(ws, requestID as number | undefined, () => {
+    if (!isActionName(action)) {
+      sendTo(ws, {
+        error: [
+          ['badAction', [action, 'unknown action']],
+        ],
+      });
+      return;
+    }
+
+    const reason = validateArgs(actionSchemas[action], args);
+    if (reason) {
+      sendTo(ws, {
+        error: [
+          ['badAction', [action, reason]],
+        ],
+      });
+      return;
+    }
+
+    if (getConnData(ws).spectating && !spectatorActions.has(action)) {
+      sendTo(ws, {
+        error: [
+          ['forbiddenAction', [action, 'spectators cannot perform this action']],
+        ],
+      });
+      return;
+    }
+
+    const { gameID } = getConnData(ws);
+    if (journaledActions.has(action) && gameID !== null && games[gameID]?.isFinished()) {
+      sendTo(ws, {
+        error: [
+          ['forbiddenAction', [action, 'the game is over']],
+        ],
+      });
+      return;
+    }
+
+    const { username } = getConnData(ws);
+    if (journaledActions.has(action) && gameID !== null && username !== null && games[gameID]?.isEliminated(username)) {
+      sendTo(ws, {
+        error: [
+          ['forbiddenAction', [action, 'your civilization has been eliminated']],
+        ],
+      });
+      return;
+    }
+
+    if (journaledActions.has(action)) {
+      recordAction(ws, action, args as unknown[]);
+    }
+
+    try {
+      const result = methods[action](ws, ...(args as unknown[]));
+      if (result instanceof Promise) {
+        result.catch((error) => console.error(error));
+      }
+    } catch(error) {
+      console.error(error);
+    }
+  });
+};
+
+/**
+ * Writes an action down in the journal of the game `ws` is playing, so that the game can be replayed.
+ * This happens before the action is carried out, so that any turn it ends is journaled after it.
+ */
+const recordAction = (ws: WebSocket, action: ActionName, args: unknown[]) => {
+  const { username, gameID } = getConnData(ws);
+  if (username === null || gameID === null) return;
+
+  const game = games[gameID];
+  const player = game?.getPlayer(username);
+  if (!player) return;
+
+  game.journal?.record({ type: 'action', civID: player.civID, action, args });
+};
+
+const setSession = (ws: WebSocket, sessionToken: string, username: string) => {
+  const conn = getConnData(ws);
+  if (conn.username !== username) leaveGame(conn);
+  conn.sessionToken = sessionToken;
+  conn.username = username;
+  sendTo(ws, { update: [
+    ['sessionToken', [sessionToken]],
+    ['currentUser', [username]],
+  ] });
+};
+
 const methods: {
-  [key: string]: (...args: unknown[]) => void;
+  [action in ActionName]: (...args: unknown[]) => void | Promise<void>;
 } = {
-  setPlayer: (ws: WebSocket, username: string) => {
-    getConnData(ws).username = username;
+  // Deprecated
+  setPlayer: (ws: WebSocket) => {
+    sendTo(ws, {
+      error: [
+        ['deprecatedAction', ['setPlayer is deprecated; use login or resumeSession instead.']],
+      ],
+    });
+  },
+
+  register: async (ws: WebSocket, username: string, password: string) => {
+    let sessionToken: string;
+    try {
+      sessionToken = await accounts.register(username, password);
+    } catch (reason) {
+      if (typeof reason !== 'string') throw reason;
+      sendTo(ws, {
+        error: [
+          ['registerFailed', [reason]],
+        ],
+      });
+      return;
+    }
+
+    setSession(ws, sessionToken, username.trim());
+  },
+
+  login: async (ws: WebSocket, username: string, password: string) => {
+    const sessionToken = await accounts.login(username, password);
+    if (!sessionToken) {
+      sendTo(ws, {
+        error: [
+          ['loginFailed', ['Invalid username or password']],
+        ],
+      });
+      return;
+    }
+
+    setSession(ws, sessionToken, username.trim());
+  },
+
+  resumeSession: async (ws: WebSocket, sessionToken: string) => {
+    const username = await accounts.resumeSession(sessionToken);
+    if (!username) {
+      sendTo(ws, {
+        error: [
+          ['invalidSession', ['Session expired; please log in again.']],
+        ],
+      });
+      return;
+    }
+
+    setSession(ws, sessionToken, username);
+  },
+
+  logout: async (ws: WebSocket) => {
+    const conn = getConnData(ws);
+    if (conn.sessionToken) {
+      await accounts.logout(conn.sessionToken);
+    }
+    leaveGame(conn);
+    conn.sessionToken = null;
+    conn.username = null;
     sendTo(ws, { update: [
-      ['currentUser', [username]],
+      ['currentUser', [null]],
     ] });
   },
 
@@ -139,80 +413,411 @@ const methods: {
       sendTo(ws, { update: [
         ['gameExportData', [JSON.stringify(game.export())]],
       ] });
-
-      // TODO REMOVE ME
-      game.save();
     }
   },
 
-  createGame: (ws: WebSocket, playerCount: number, mapOptions: MapOptions, options: { seed?: number, gameName?: string }) => {
+  createGame: async (ws: WebSocket, playerCount: number, mapOptions: MapOptions, options: GameOptions) => {
     const username = getUsername(ws);
+    const reason = checkPlayerCount(playerCount) ?? checkGameOptions(options ?? {});
+    if (reason) {
+      sendTo(ws, { error: [
+        ['invalidGameOptions', [reason]],
+      ] });
+      return;
+    }
     if (username && playerCount && mapOptions) {
-      createGame(username, playerCount, mapOptions, options ?? {});
+      let game: Game;
+      try {
+        game = await Game.generate(playerCount, mapOptions, { ...options, ownerName: username });
+      } catch (err) {
+        if (!(err instanceof InvalidRulesetError)) throw err;
+        sendTo(ws, { error: [
+          ['invalidGameOptions', [err.message]],
+        ] });
+        return;
+      }
+      await registry.create(game);
     }
     
     methods.getGames(ws);
   },
 
-  joinGame: (ws: WebSocket, gameID: number) => {
-    const game = games[gameID];
-
+  joinGame: async (ws: WebSocket, gameID: number, password?: string) => {
     const username = getUsername(ws);
 
-    const civID = game?.newPlayerCivID(username);
+    const game = await loadGame(ws, gameID);
+    if (!game) return;
+
+    // Hotseat players are only ever played through their host's connection
+    if (game.players[username]?.hotseatHost) {
+      sendTo(ws, { error: [
+        ['kicked', ['That name belongs to a hotseat player']],
+      ] });
+      return;
+    }
+
+    // Playing while spectating from another connection would show the player past their fog of war
+    if (game.spectators[username] && !game.spectators[username].isConnectedTo(ws)) {
+      sendTo(ws, { error: [
+        ['kicked', ['You are already spectating that game']],
+      ] });
+      return;
+    }
+
+    // Players who already hold a civ in the game do not need the password to rejoin
+    if (!(username in game.players) && !await checkGamePassword(ws, game, password)) return;
+
+    const civID = game.newPlayerCivID(username);
+    // Since getUsername only accepts names backed by a session token, only the account owning a Player can rejoin as it.
     const isRejoin = username in game.players;
 
     if (civID !== null) {
-      getConnData(ws).gameID = gameID;
+      const conn = getConnData(ws);
+      if (conn.gameID !== gameID || conn.spectating) leaveGame(conn);
+      conn.gameID = gameID;
       
       if (isRejoin) {
-        game.players[username].reset(ws);
+        game.reconnectPlayer(username, ws);
       } else {
         game.connectPlayer(username, new Player(civID, ws));
       }
 
-      sendTo(ws, {
-        update: [
-          ['civID', [ civID ]],
-        ]
-      });
+      // Players joining a started game take over a civ from the AI
+      sendPlayerState(ws, game, username, isRejoin || game.hasStarted);
 
-      if (isRejoin) {
-        game.startGame(game.players[username]);
-      } else {
-        sendTo(ws, {
-          update: [
-            ['leaderPool', [ ...game.world.getLeaderPool(), game.getPlayersData() ]],
-          ],
-        });
-      }
+      sendGameListToLobby();
+    } else {
+      sendTo(ws, { error: [
+        ['kicked', ['Game full']],
+      ] });
+    }
+  },
+
+  spectateGame: async (ws: WebSocket, gameID: number, civID?: number | null, password?: string) => {
+    const username = getUsername(ws);
+
+    const game = await loadGame(ws, gameID);
+    if (!game) return;
+
+    // Spectators can see past the fog of war, which players of the game must not
+    if (game.hasSeat(username)) {
+      sendTo(ws, { error: [
+        ['kicked', ['Players cannot spectate their own game']],
+      ] });
+      return;
+    }
+
+    if (!await checkGamePassword(ws, game, password)) return;
+
+    const viewCivID = civID ?? null;
+    if (viewCivID !== null && !(viewCivID >= 0 && viewCivID < game.playerCount)) {
+      sendTo(ws, { error: [
+        ['invalidCivID', ['That civ does not exist']],
+      ] });
+      return;
+    }
+
+    const conn = getConnData(ws);
+    leaveGame(conn);
+    conn.gameID = gameID;
+    conn.spectating = true;
+    game.addSpectator(username, ws, viewCivID);
+
+    sendGameListToLobby();
+  },
+
+  setSpectatorView: (ws: WebSocket, civID: number | null) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!getConnData(ws).spectating) {
+      sendTo(ws, { error: [
+        ['forbiddenAction', ['setSpectatorView', 'only spectators can change their view']],
+      ] });
+      return;
+    }
+
+    if (civID !== null && !(civID >= 0 && civID < game.playerCount)) {
+      sendTo(ws, { error: [
+        ['invalidCivID', ['That civ does not exist']],
+      ] });
+      return;
+    }
+
+    game.setSpectatorView(username, civID);
+  },
+
+  requestMapSync: (ws: WebSocket) => {
+    const username = getUsername(ws);
+    const game = getViewedGame(ws);
+
+    if (!game.hasStarted) {
+      sendTo(ws, { error: [
+        ['forbiddenAction', ['requestMapSync', 'the game has not started yet']],
+      ] });
+      return;
+    }
+
+    game.resyncMap(username);
+  },
+
+  requestChunks: (ws: WebSocket, bounds: Bounds) => {
+    const username = getUsername(ws);
+    const game = getViewedGame(ws);
+
+    if (!game.hasStarted) {
+      sendTo(ws, { error: [
+        ['forbiddenAction', ['requestChunks', 'the game has not started yet']],
+      ] });
+      return;
+    }
 
-      const gameList = {};
-      for (const id in games) {
-        gameList[id] = games[id].getMetaData();
+    const chunks = getChunksInBounds(game.world.map, bounds);
+    if (chunks.length > MAX_SUBSCRIBED_CHUNKS) {
+      sendTo(ws, { error: [
+        ['badAction', ['requestChunks', `cannot subscribe to more than ${MAX_SUBSCRIBED_CHUNKS} chunks at once`]],
+      ] });
+      return;
+    }
+
+    game.subscribeChunks(username, chunks);
+  },
+
+  /**
+   * Starts watching a replay of a game from its first turn, as a spectator who can see every civ.
+   */
+  openReplay: async (ws: WebSocket, gameID: number) => {
+    const username = getUsername(ws);
+
+    const game = await loadGame(ws, gameID);
+    if (!game) return;
+
+    if (!game.journal) {
+      sendTo(ws, { error: [
+        ['noReplay', ['That game has not started yet']],
+      ] });
+      return;
+    }
+    if (!game.canReplay(username)) {
+      sendTo(ws, { error: [
+        ['notOwner', ['Only the owner of this game can watch its replay']],
+      ] });
+      return;
+    }
+
+    const conn = getConnData(ws);
+    leaveGame(conn);
+    const replay = new Replayer(game.journal);
+    conn.replay = replay;
+    replay.game.addSpectator(username, ws, null);
+    sendTo(ws, { update: [
+      ['replayTurn', [replay.game.turn, replay.isFinished()]],
+    ] });
+
+    sendGameListToLobby();
+  },
+
+  /**
+   * Plays the replay being watched up to the end of its current turn.
+   */
+  stepReplay: (ws: WebSocket) => {
+    const { replay } = getConnData(ws);
+    if (!replay) {
+      sendTo(ws, { error: [
+        ['forbiddenAction', ['stepReplay', 'not watching a replay']],
+      ] });
+      return;
+    }
+
+    const turn = replay.stepTurn();
+    sendTo(ws, { update: [
+      ['replayTurn', [turn, replay.isFinished()]],
+    ] });
+  },
+
+  closeReplay: (ws: WebSocket) => {
+    getConnData(ws).replay = null;
+  },
+
+  kickPlayer: (ws: WebSocket, target: string) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!checkOwner(ws, game, username)) return;
+
+    if (target === username || !(target in game.players)) {
+      sendTo(ws, { error: [
+        ['invalidPlayer', ['That player cannot be kicked']],
+      ] });
+      return;
+    }
+
+    for (const conn of connData) {
+      if (conn.username === target && conn.gameID === gameID && !conn.spectating) {
+        conn.gameID = null;
+        sendTo(conn.ws, { error: [
+          ['kicked', ['Kicked by the host']],
+        ] });
       }
+    }
+    game.removePlayer(target);
 
-      for (const conn of connData) {
-        if (conn.gameID === null) {
-          sendTo(conn.ws, {
-            update: [
-              ['gameList', [gameList]],
-            ],
-          });
-        }
+    sendGameListToLobby();
+  },
+
+  transferOwnership: (ws: WebSocket, target: string) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!checkOwner(ws, game, username)) return;
+
+    if (!(target in game.players) || game.players[target].hotseatHost !== null) {
+      sendTo(ws, { error: [
+        ['invalidPlayer', ['Ownership can only be given to a player in this game with their own connection']],
+      ] });
+      return;
+    }
+
+    game.setOwner(target);
+
+    sendGameListToLobby();
+  },
+
+  addHotseatPlayer: (ws: WebSocket, name: string) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    const reason = game.addHotseatPlayer(username, name.trim());
+    if (reason) {
+      sendTo(ws, { error: [
+        ['invalidPlayer', [reason]],
+      ] });
+      return;
+    }
+
+    sendGameListToLobby();
+  },
+
+  switchHotseatPlayer: (ws: WebSocket, name: string) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    const reason = game.switchHotseatPlayer(username, name);
+    if (reason) {
+      sendTo(ws, { error: [
+        ['invalidPlayer', [reason]],
+      ] });
+    }
+  },
+
+  setPlayerCount: (ws: WebSocket, playerCount: number) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!checkOwner(ws, game, username)) return;
+
+    const reason = game.setPlayerCount(playerCount);
+    if (reason) {
+      sendTo(ws, { error: [
+        ['invalidPlayerCount', [reason]],
+      ] });
+      return;
+    }
+
+    sendGameListToLobby();
+  },
+
+  setGamePassword: async (ws: WebSocket, password: string | null) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!checkOwner(ws, game, username)) return;
+
+    game.setPassword(password ? await hashPassword(password) : null);
+
+    sendGameListToLobby();
+  },
+
+  deleteGame: async (ws: WebSocket) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!checkOwner(ws, game, username)) return;
+
+    for (const conn of connData) {
+      if (conn.gameID === gameID) {
+        conn.gameID = null;
+        conn.spectating = false;
+        sendTo(conn.ws, { error: [
+          ['kicked', ['The game was deleted']],
+        ] });
       }
-    } else {
+    }
+    await registry.delete(gameID);
+
+    sendGameListToLobby();
+  },
+
+  listSaves: async (ws: WebSocket) => {
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    sendTo(ws, { update: [
+      ['saveList', [await game.listAutosaves()]],
+    ] });
+  },
+
+  /**
+   * Rolls the game back to the autosave made on `turn`, bringing everyone connected along.
+   */
+  loadSave: async (ws: WebSocket, turn: number) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
+    const game = games[gameID];
+
+    if (!checkOwner(ws, game, username)) return;
+
+    let rolledBack: Game;
+    try {
+      rolledBack = await Game.loadAutosave(game.saveFile as string, turn);
+    } catch (err) {
+      if (!(err instanceof InvalidSaveError || err.code === 'ENOENT')) throw err;
       sendTo(ws, { error: [
-        ['kicked', ['Game full']],
+        ['invalidSave', [err instanceof InvalidSaveError ? err.message : 'There is no autosave from that turn']],
       ] });
+      return;
+    }
+    await registry.replace(gameID, rolledBack);
+
+    for (const conn of connData) {
+      if (conn.gameID !== gameID || conn.username === null) continue;
+
+      if (conn.spectating) {
+        rolledBack.addSpectator(conn.username, conn.ws, game.spectators[conn.username]?.civID ?? null);
+      } else if (conn.username in rolledBack.players && game.getPlayer(conn.username)?.isConnectedTo(conn.ws)) {
+        rolledBack.reconnectPlayer(conn.username, conn.ws);
+        sendPlayerState(conn.ws, rolledBack, conn.username, true);
+      } else {
+        conn.gameID = null;
+        sendTo(conn.ws, { error: [
+          ['kicked', ['The game was rolled back to before you joined']],
+        ] });
+      }
     }
+
+    sendGameListToLobby();
   },
 
   getGames: (ws: WebSocket) => {
-    const gameList = {};
-    for (const gameID in games) {
-      gameList[gameID] = games[gameID].getMetaData();
-    }
+    const gameList = registry.getGameList();
 
     sendTo(ws, {
       update: [
@@ -266,7 +871,7 @@ const methods: {
 
       player.ready = state;
 
-      if (Object.keys(game.players).length === game.playerCount) {
+      if (game.isFull()) {
         if (Object.values(game.players).every((player: Player) => player.ready)) {
           game.startGame(player);
         }
@@ -281,7 +886,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     game.sendToCiv(civID, {
       error: [
@@ -297,7 +902,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
     const civ = game.world.civs[civID];
 
     if (!civ.turnActive) {
@@ -313,20 +918,58 @@ const methods: {
     // mark civ as finished/unfinished
     civ.turnFinished = state;
 
-    // see if all players are finished...
-    let finished = true;
-    for (let civID = 0; civID < game.playerCount; civID++) {
-      const civ = game.world.civs[civID];
-      if (civ.turnActive && !civ.turnFinished) {
-        finished = false;
-        break;
+    game.checkTurnFinished();
+  },
+
+  /**
+   * Sends a chat message to everyone in the game's lobby before it starts, to everyone in the game once it has,
+   * or to a single civ in private.
+   * @param recipientCivID the civ to message; only used on the private channel
+   */
+  sendChat: (ws: WebSocket, channel: ChatChannel, text: string, recipientCivID?: number) => {
+    const username = getUsername(ws);
+    const { gameID, spectating } = getConnData(ws);
+
+    const game = gameID === null ? undefined : games[gameID];
+    const senderCivID = !game || spectating ? null : game.getPlayer(username).civID;
+
+    text = text.trim();
+    let reason: string | null = null;
+    if (!game) {
+      reason = 'Join a game to chat';
+    } else if (!text) {
+      reason = 'Message is empty';
+    } else if (text.length > MAX_MESSAGE_LENGTH) {
+      reason = `Messages must be at most ${MAX_MESSAGE_LENGTH} characters long`;
+    } else if (channel === 'lobby' && game.hasStarted) {
+      reason = 'The lobby channel closes once the game starts';
+    } else if (channel === 'all' && !game.hasStarted) {
+      reason = 'The game has not started yet';
+    } else if (channel === 'private') {
+      if (senderCivID === null) {
+        reason = 'Spectators cannot send private messages';
+      } else if (recipientCivID === undefined || recipientCivID === senderCivID || !Object.values(game.players).some(player => player.civID === recipientCivID)) {
+        reason = 'No such recipient';
       }
     }
 
-    // if so:
-    if (finished) {
-      game.endTurn();
+    if (reason || !game) {
+      sendTo(ws, {
+        error: [
+          ['chatRejected', [reason]],
+        ],
+      });
+      return;
     }
+
+    game.sendChatMessage({
+      channel,
+      sender: username,
+      senderCivID,
+      recipientCivID: channel === 'private' ? recipientCivID : undefined,
+      text,
+      time: Date.now(),
+    });
   },
 
   attack: (ws: WebSocket, srcCoords: Coords, targetCoords: Coords) => {
@@ -334,43 +977,27 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     console.log(srcCoords, targetCoords);
 
     if (game) {
-      const world = game.world;
-      const map = world.map;
+      const unit = game.world.orderAttack(civID, srcCoords, targetCoords);
 
-      const src = map.getTile(srcCoords);
-      const unit = src.unit;
-
-      const target = map.getTile(targetCoords);
-
-      if ( !unit || unit.civID !== civID ) {
-        game.sendUpdates();
-        return;
-      }
+      game.sendUpdates();
 
-      if (target.unit && map.canUnitAttack(unit, target.unit) && unit.movement > 0) {
-        if (unit.promotionClass === PromotionClass.RANGED) {
-          world.rangedCombat(unit, target.unit);
-          unit.movement = 0;
-        } else {
-          world.meleeCombat(unit, target.unit);
-          unit.movement = 0;
-        }
+      if (unit) {
+        // In case we later support units being moved as a result of them attacking,
+        // we want to send a unit position update here. It also simplifies frontend logic.
+        game.sendToCiv(civID, {
+          update: [
+            ['unitPositionUpdate', [srcCoords, unit.coords]],
+          ],
+        });
       }
 
-      game.sendUpdates();
-
-      // In case we later support units being moved as a result of them attacking,
-      // we want to send a unit position update here. It also simplifies frontend logic.
-      game.sendToCiv(civID, {
-        update: [
-          ['unitPositionUpdate', [srcCoords, unit.coords]],
-        ],
-      });
+      // The fight may have eliminated a civ the turn was waiting on
+      game.checkTurnFinished();
     }
   },
 
@@ -379,57 +1006,54 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     console.log(srcCoords, path, attack);
 
     if (game) {
-      const world = game.world;
-      const map = world.map;
-
-      let src = map.getTile(srcCoords);
-      let finalCoords = srcCoords;
+      const finalCoords = game.world.orderMove(civID, srcCoords, path, attack);
 
-      for (const dstCoords of path) {
-        const dst = map.getTile(dstCoords);
-
-        const unit = src.unit;
+      game.sendUpdates();
 
-        if ( !unit || unit.civID !== civID || !(unit.movement >= dst.getMovementCost(unit)) ) {
-          game.sendUpdates();
-          return;
-        }
+      if (finalCoords) {
+        game.sendToCiv(civID, {
+          update: [
+            ['unitPositionUpdate', [srcCoords, finalCoords]],
+          ],
+        });
+      }
 
-        if (dst.unit) {
-          break;
-        }
+      // A fight or a captured city may have eliminated a civ the turn was waiting on
+      game.checkTurnFinished();
+    }
+  },
 
-        unit.movement -= dst.getMovementCost(unit);
-        map.moveUnitTo(unit, dstCoords);
+  /**
+   * Takes back the last move of the player's civ, if it revealed nothing and the unit has not done anything since.
+   */
+  undoMove: (ws: WebSocket) => {
+    const username = getUsername(ws);
+    const gameID = getGameID(ws);
 
-        src = dst;
-        finalCoords = dstCoords;
-      }
+    const game = games[gameID];
+    const civID = game.getPlayer(username).civID;
 
-      if (attack) {
-        const unit = src.unit;
-        if (unit) {
-          const target = map.getTile(path[path.length - 1]);
-          if (target.unit && unit.isAdjacentTo(target.unit.coords)) {
-            world.meleeCombat(unit, target.unit);
-            unit.movement = 0;
-          }
-        }
-      }
+    const undone = game.world.undoMove(civID);
+    if (!undone) {
+      sendTo(ws, { error: [
+        ['nothingToUndo', ['There is no move to undo']],
+      ] });
+      return;
+    }
 
-      game.sendUpdates();
+    game.sendUpdates();
 
-      game.sendToCiv(civID, {
-        update: [
-          ['unitPositionUpdate', [srcCoords, finalCoords]],
-        ],
-      });
-    }
+    const [srcCoords, dstCoords] = undone;
+    game.sendToCiv(civID, {
+      update: [
+        ['unitPositionUpdate', [srcCoords, dstCoords]],
+      ],
+    });
   },
 
   settleCity: (ws: WebSocket, coords: Coords, name: string) => {
@@ -437,23 +1061,13 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
-      const world = game.world;
-      const map = world.map;
-
-      const unit = map.getTile(coords)?.unit;
-      if (unit?.type === 'settler' && unit?.civID === civID) {
-        const validCityLocation = map.settleCityAt(coords, name, civID);
-
-        if (validCityLocation) {
-          world.removeUnit(unit);
-        } else {
-          // TODO - some kind of error here?
-        }
-
+      if (game.world.orderSettleCity(civID, coords, name)) {
         game.sendUpdates();
+      } else {
+        // TODO - some kind of error here?
       }
     }
   },
@@ -467,7 +1081,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
       const map = game.world.map;
@@ -487,16 +1101,10 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
-      const map = game.world.map;
-
-      const tile = map.getTile(coords);
-      const unit = tile?.unit;
-
-      if (unit?.type === 'builder' && unit?.civID === civID && !tile.improvement) {
-        map.startConstructionAt(coords, type, civID);
+      if (game.world.orderConstruction(civID, coords, type)) {
         game.sendUpdates();
       }
     }
@@ -507,7 +1115,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
       const map = game.world.map;
@@ -520,6 +1128,20 @@ const methods: {
     }
   },
 
+  /**
+   * Sends the stats of every turn played so far, as far as the player may see them.
+   */
+  getStats: (ws: WebSocket) => {
+    const username = getUsername(ws);
+    const game = getViewedGame(ws);
+
+    sendTo(ws, {
+      update: [
+        ['statsHistory', [game.getStatsHistory(username)]],
+      ],
+    });
+  },
+
   /**
    * The list of units the given improvement is able to build
    * @param coords 
@@ -529,7 +1151,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
       const map = game.world.map;
@@ -549,7 +1171,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
       const map = game.world.map;
@@ -570,7 +1192,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
       const map = game.world.map;
@@ -590,7 +1212,7 @@ const methods: {
     const gameID = getGameID(ws);
 
     const game = games[gameID];
-    const civID = game.players[username].civID;
+    const civID = game.getPlayer(username).civID;
 
     if (game) {
       const map = game.world.map;
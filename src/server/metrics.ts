@@ -0,0 +1,125 @@
+import { performance } from 'perf_hooks';
+
+const RATE_WINDOW = 60; // s
+
+interface MessageCounter {
+  count: number;
+  totalBytes: number;
+  largestBytes: number;
+}
+
+const newMessageCounter = (): MessageCounter => ({ count: 0, totalBytes: 0, largestBytes: 0 });
+
+const countMessage = (counter: MessageCounter, bytes: number): void => {
+  counter.count++;
+  counter.totalBytes += bytes;
+  counter.largestBytes = Math.max(counter.largestBytes, bytes);
+};
+
+/**
+ * Counters of how busy the server is, for whoever operates it. They start over whenever the server restarts.
+ */
+export class Metrics {
+  private startTime: number;
+  private actionsTotal: number;
+  /** Actions received in each of the last `RATE_WINDOW` seconds, indexed by the second modulo `RATE_WINDOW` */
+  private actionBuckets: number[];
+  /** The second each bucket of `actionBuckets` is counting, so that stale buckets can be told apart */
+  private bucketSeconds: number[];
+  private messagesReceived: MessageCounter;
+  private messagesSent: MessageCounter;
+  private endTurnCount: number;
+  private endTurnTotalTime: number;
+  private endTurnLongestTime: number;
+
+  constructor() {
+    this.startTime = Date.now();
+    this.actionsTotal = 0;
+    this.actionBuckets = new Array(RATE_WINDOW).fill(0);
+    this.bucketSeconds = new Array(RATE_WINDOW).fill(-1);
+    this.messagesReceived = newMessageCounter();
+    this.messagesSent = newMessageCounter();
+    this.endTurnCount = 0;
+    this.endTurnTotalTime = 0;
+    this.endTurnLongestTime = 0;
+  }
+
+  recordAction(): void {
+    const second = Math.floor(Date.now() / 1000);
+    const bucket = second % RATE_WINDOW;
+    if (this.bucketSeconds[bucket] !== second) {
+      this.bucketSeconds[bucket] = second;
+      this.actionBuckets[bucket] = 0;
+    }
+    this.actionBuckets[bucket]++;
+    this.actionsTotal++;
+  }
+
+  recordMessageReceived(bytes: number): void {
+    countMessage(this.messagesReceived, bytes);
+  }
+
+  recordMessageSent(bytes: number): void {
+    countMessage(this.messagesSent, bytes);
+  }
+
+  /**
+   * Runs `callback`, which ends a turn, and counts how long it took.
+   */
+  timeEndTurn(callback: () => void): void {
+    const start = performance.now();
+    try {
+      callback();
+    } finally {
+      const time = performance.now() - start;
+      this.endTurnCount++;
+      this.endTurnTotalTime += time;
+      this.endTurnLongestTime = Math.max(this.endTurnLongestTime, time);
+    }
+  }
+
+  /**
+   * @returns how many actions were received per second, on average over the last `RATE_WINDOW` seconds
+   */
+  private getActionRate(): number {
+    const now = Math.floor(Date.now() / 1000);
+    let actions = 0;
+    for (let bucket = 0; bucket < RATE_WINDOW; bucket++) {
+      // The current second is still being counted, so it is left out
+      if (this.bucketSeconds[bucket] < now && this.bucketSeconds[bucket] >= now - RATE_WINDOW) {
+        actions += this.actionBuckets[bucket];
+      }
+    }
+    const seconds = Math.min(RATE_WINDOW, Math.floor((Date.now() - this.startTime) / 1000));
+    return seconds > 0 ? actions / seconds : 0;
+  }
+
+  private getMessageStats({ count, totalBytes, largestBytes }: MessageCounter) {
+    return {
+      count,
+      totalBytes,
+      averageBytes: count > 0 ? totalBytes / count : 0,
+      largestBytes,
+    };
+  }
+
+  getStats(connectedSockets: number) {
+    return {
+      uptime: Math.floor((Date.now() - this.startTime) / 1000),
+      connectedSockets,
+      actions: {
+        total: this.actionsTotal,
+        perSecond: this.getActionRate(),
+      },
+      endTurn: {
+        count: this.endTurnCount,
+        averageMs: this.endTurnCount > 0 ? this.endTurnTotalTime / this.endTurnCount : 0,
+        longestMs: this.endTurnLongestTime,
+      },
+      messagesReceived: this.getMessageStats(this.messagesReceived),
+      messagesSent: this.getMessageStats(this.messagesSent),
+    };
+  }
+}
+
+export const metrics = new Metrics();
@@ -0,0 +1,263 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+
+import { SAVE_LOCATION } from './config';
+import { Game, GameListing } from './game';
+import { writeFileAtomic } from './utils/files';
+
+const REGISTRY_FILE = 'registry.json';
+const IDLE_TIMEOUT = 5 * 60 * 1000; // ms
+
+interface RegistryEntry {
+  /** Name of the save file, without the `.json` extension */
+  saveFile: string;
+  /** The game's listing as of when it was last unloaded */
+  listing: GameListing;
+}
+
+/**
+ * Keeps track of every game on disk under a stable ID, loading them into memory when they are used
+ * and unloading them again once nobody has been connected for a while.
+ */
+export class GameRegistry {
+  /** Games currently loaded in memory */
+  readonly games: { [gameID: number]: Game };
+  private entries: { [gameID: number]: RegistryEntry };
+  private loading: { [gameID: number]: Promise<Game> };
+  private emptySince: { [gameID: number]: number };
+  private nextID: number;
+  private ready: Promise<void>;
+  private saving: Promise<void>;
+
+  constructor(private directory: string) {
+    this.games = {};
+    this.entries = {};
+    this.loading = {};
+    this.emptySince = {};
+    this.nextID = 1;
+    this.saving = Promise.resolve();
+    this.ready = this.scan();
+  }
+
+  /**
+   * Reads the registry file, then registers any save in the directory that it does not know about yet.
+   */
+  private async scan(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(this.directory, REGISTRY_FILE), { encoding: 'utf8' }));
+      if (!Number.isInteger(data?.nextID) || typeof data.games !== 'object' || data.games === null) {
+        throw new SyntaxError('the registry is not an object with nextID and games');
+      }
+      this.nextID = data.nextID;
+      this.entries = data.games;
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        // There is no registry yet, so every save gets registered below
+      } else if (err instanceof SyntaxError) {
+        // A corrupt registry only costs the listings, which are rebuilt from the saves themselves
+        console.error(`Could not read ${REGISTRY_FILE}, registering every save again:`, err.message);
+        this.nextID = 1;
+        this.entries = {};
+      } else {
+        throw err;
+      }
+    }
+
+    const saveFiles = (await fs.readdir(this.directory))
+      .filter(file => file.endsWith('.json') && file !== REGISTRY_FILE)
+      .map(file => file.slice(0, -'.json'.length));
+
+    for (const gameID in this.entries) {
+      if (!saveFiles.includes(this.entries[gameID].saveFile)) {
+        delete this.entries[gameID];
+      }
+    }
+
+    // New games are saved under their ID, which must not be the name of a save that is already there
+    for (const saveFile of saveFiles) {
+      if (/^\d+$/.test(saveFile)) this.nextID = Math.max(this.nextID, Number(saveFile) + 1);
+    }
+
+    const knownSaveFiles = Object.values(this.entries).map(entry => entry.saveFile);
+    for (const saveFile of saveFiles) {
+      if (knownSaveFiles.includes(saveFile)) continue;
+
+      try {
+        const game = await Game.load(saveFile);
+        // Saves named after their ID keep it, so that links to them stay the same
+        const gameID = /^\d+$/.test(saveFile) && !this.entries[saveFile] ? Number(saveFile) : this.nextID++;
+        this.entries[gameID] = { saveFile, listing: game.getMetaData() };
+      } catch (err) {
+        console.error(`Could not read save "${saveFile}":`, err);
+      }
+    }
+
+    await this.saveRegistry();
+  }
+
+  private saveRegistry(): Promise<void> {
+    // Chain writes so that two overlapping saves cannot interleave.
+    this.saving = this.saving.then(() => writeFileAtomic(path.join(this.directory, REGISTRY_FILE), JSON.stringify({
+      nextID: this.nextID,
+      games: this.entries,
+    })));
+    return this.saving;
+  }
+
+  /**
+   * @returns the game with ID `gameID`, loading it from disk if needed, or undefined if there is no such game
+   */
+  async load(gameID: number): Promise<Game | undefined> {
+    await this.ready;
+    if (this.games[gameID]) return this.games[gameID];
+
+    const entry = this.entries[gameID];
+    if (!entry) return undefined;
+
+    // Two players joining at once must end up in the same Game
+    if (!this.loading[gameID]) {
+      this.loading[gameID] = Game.load(entry.saveFile).then((game) => {
+        this.games[gameID] = game;
+        delete this.loading[gameID];
+        return game;
+      }, (err) => {
+        delete this.loading[gameID];
+        throw err;
+      });
+    }
+    return this.loading[gameID];
+  }
+
+  /**
+   * Registers and saves a newly created game.
+   * @returns the ID of the new game
+   */
+  async create(game: Game): Promise<number> {
+    await this.ready;
+    const gameID = this.nextID++;
+    const saveFile = String(gameID);
+    game.saveFile = saveFile;
+    this.games[gameID] = game;
+    this.entries[gameID] = { saveFile, listing: game.getMetaData() };
+    await game.save();
+    await this.saveRegistry();
+    return gameID;
+  }
+
+  /**
+   * Puts `game` in place of the loaded game with ID `gameID`, such as when rolling back to an autosave.
+   */
+  async replace(gameID: number, game: Game): Promise<void> {
+    this.games[gameID]?.stopTurnTimer();
+    game.saveFile = this.entries[gameID].saveFile;
+    this.games[gameID] = game;
+    await game.save();
+  }
+
+  /**
+   * Autosaves every loaded game, such as before the server shuts down.
+   */
+  async saveAll(): Promise<void> {
+    await Promise.all(Object.values(this.games).map(game => game.autosave()));
+    await this.saveRegistry();
+  }
+
+  /**
+   * Forgets a game and deletes its save, journal and autosaves.
+   */
+  async delete(gameID: number): Promise<void> {
+    await this.ready;
+    const entry = this.entries[gameID];
+    this.games[gameID]?.stopTurnTimer();
+    delete this.games[gameID];
+    delete this.entries[gameID];
+    delete this.emptySince[gameID];
+    if (!entry) return;
+
+    await fs.rm(path.join(this.directory, `${entry.saveFile}.json`), { force: true });
+    await fs.rm(path.join(this.directory, `${entry.saveFile}.journal`), { force: true });
+    await Game.deleteAutosaves(entry.saveFile);
+    await this.saveRegistry();
+  }
+
+  /**
+   * Resolves once the registry knows about every save in its directory.
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * @returns whether the game with ID `gameID` is loaded in memory
+   */
+  isLoaded(gameID: number): boolean {
+    return gameID in this.games;
+  }
+
+  /**
+   * @returns the listing of every registered game, whether loaded or not
+   */
+  getGameList(): { [gameID: number]: GameListing } {
+    const gameList = {};
+    for (const gameID in this.entries) {
+      gameList[gameID] = this.games[gameID]?.getMetaData() ?? this.entries[gameID].listing;
+    }
+    return gameList;
+  }
+
+  /**
+   * Saves and unloads the game with ID `gameID`, if it is loaded, whether or not anyone is still connected to it.
+   */
+  async unload(gameID: number): Promise<void> {
+    const game = this.games[gameID];
+    if (!game) return;
+
+    await game.save();
+    this.entries[gameID].listing = game.getMetaData();
+    game.stopTurnTimer();
+    delete this.games[gameID];
+    delete this.emptySince[gameID];
+    await this.saveRegistry();
+  }
+
+  /**
+   * Saves and unloads every loaded game, such as once the admin CLI is done with the save files.
+   */
+  async unloadAll(): Promise<void> {
+    for (const gameID in this.games) {
+      await this.unload(Number(gameID));
+    }
+  }
+
+  /**
+   * Saves and unloads every game that nobody has been connected to for `IDLE_TIMEOUT`.
+   */
+  async unloadIdleGames(): Promise<void> {
+    const now = Date.now();
+    for (const gameID in this.games) {
+      const game = this.games[gameID];
+      if (!game.isEmpty()) {
+        delete this.emptySince[gameID];
+        continue;
+      }
+
+      this.emptySince[gameID] ??= now;
+      if (now - this.emptySince[gameID] < IDLE_TIMEOUT) continue;
+
+      await game.save();
+      // Someone may have joined while the game was being saved
+      if (this.games[gameID] !== game || !game.isEmpty()) continue;
+
+      this.entries[gameID].listing = game.getMetaData();
+      game.stopTurnTimer();
+      delete this.games[gameID];
+      delete this.emptySince[gameID];
+    }
+
+    await this.saveRegistry();
+  }
+}
+
+export const registry = new GameRegistry(SAVE_LOCATION);
@@ -0,0 +1,16 @@
+import * as crypto from 'crypto';
+import * as fs from 'node:fs/promises';
+
+/**
+ * Writes `data` to `file` through a temporary file, so a crash mid-write never leaves `file` half-written.
+ */
+export const writeFileAtomic = async (file: string, data: string): Promise<void> => {
+  const tempFile = `${file}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tempFile, data);
+    await fs.rename(tempFile, file);
+  } catch (err) {
+    await fs.rm(tempFile, { force: true });
+    throw err;
+  }
+};
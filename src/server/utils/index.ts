@@ -1,15 +1,51 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as WebSocket from 'ws';
 import { Coords } from '../game/world';
+import { metrics } from '../metrics';
 
 export type Event = [string, unknown[]];
 
+/**
+ * A client action; the optional third element is a request ID the server will echo back.
+ */
+export type Action = [string, unknown[], number?];
+
 export interface EventMsg {
-  actions?: Event[];
+  actions?: Action[];
   update?: Event[];
   error?: Event[];
+  requestID?: number;
 }
 
+const activeRequest = new AsyncLocalStorage<{ connection: WebSocket, requestID: number }>();
+
+/**
+ * Runs `callback` while tagging every message sent to `connection` with `requestID`,
+ * so the client can tell which of its actions the messages answer.
+ * This also covers messages sent after `await`s within `callback`.
+ */
+export const withRequest = (connection: WebSocket, requestID: number | undefined, callback: () => void): void => {
+  if (requestID === undefined) {
+    callback();
+  } else {
+    activeRequest.run({ connection, requestID }, callback);
+  }
+};
+
+export const sendMsg = (connection: WebSocket, msg: EventMsg): void => {
+  const request = activeRequest.getStore();
+  if (request?.connection === connection) {
+    msg = { ...msg, requestID: request.requestID };
+  }
+  const data = JSON.stringify(msg);
+  metrics.recordMessageSent(Buffer.byteLength(data));
+  connection.send(data);
+};
+
 export interface PlayerData {
   civID: number;
+  connected: boolean;
+  hotseatHost: string | null;
 }
 
 export const mod = (a: number, b: number): number => {
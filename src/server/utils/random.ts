@@ -30,6 +30,13 @@ export class Random {
     return Math.round(this.randFloat(from, to));
   }
 
+  /**
+   * @returns a number from which `new Random(state)` continues the same sequence as this generator
+   */
+  public getState(): number {
+    return this.prevRand;
+  }
+
   public doubleRandInt(n1: number, n2: number, n3: number, n4: number): number {
     return this.randInt(this.randInt(n1, n2), this.randInt(n3, n4));
   }
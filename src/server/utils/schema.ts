@@ -0,0 +1,129 @@
+export type Schema =
+  { kind: 'number', integer: boolean } |
+  { kind: 'string' } |
+  { kind: 'boolean' } |
+  { kind: 'enum', values: readonly string[] } |
+  { kind: 'array', items: Schema } |
+  { kind: 'record', values: Schema } |
+  { kind: 'object', properties: { [key: string]: Schema }, name?: string } |
+  { kind: 'optional', schema: Schema } |
+  { kind: 'nullable', schema: Schema };
+
+export const Schema = {
+  number: (): Schema => ({ kind: 'number', integer: false }),
+  integer: (): Schema => ({ kind: 'number', integer: true }),
+  string: (): Schema => ({ kind: 'string' }),
+  boolean: (): Schema => ({ kind: 'boolean' }),
+  enum: (values: readonly string[]): Schema => ({ kind: 'enum', values }),
+  array: (items: Schema): Schema => ({ kind: 'array', items }),
+  /**
+   * An object used as a dictionary, with any keys but values all matching `values`
+   */
+  record: (values: Schema): Schema => ({ kind: 'record', values }),
+  /**
+   * @param name if given, the object is referred to by this type name in the generated client bindings
+   */
+  object: (properties: { [key: string]: Schema }, name?: string): Schema => ({ kind: 'object', properties, name }),
+  optional: (schema: Schema): Schema => ({ kind: 'optional', schema }),
+  nullable: (schema: Schema): Schema => ({ kind: 'nullable', schema }),
+};
+
+export const coordsSchema = Schema.object({
+  x: Schema.integer(),
+  y: Schema.integer(),
+}, 'Coords');
+
+/**
+ * Checks `value` against `schema`.
+ * @param path name of the value, used to make the returned reason readable
+ * @returns null if `value` matches, else a description of the first mismatch found
+ */
+export const validate = (schema: Schema, value: unknown, path = 'value'): string | null => {
+  switch (schema.kind) {
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) return `${path} must be a number`;
+      if (schema.integer && !Number.isInteger(value)) return `${path} must be an integer`;
+      return null;
+    case 'string':
+    case 'boolean':
+      if (typeof value !== schema.kind) return `${path} must be a ${schema.kind}`;
+      return null;
+    case 'enum':
+      if (!schema.values.includes(value as string)) return `${path} must be one of ${schema.values.join(', ')}`;
+      return null;
+    case 'array':
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      for (let i = 0; i < value.length; i++) {
+        const reason = validate(schema.items, value[i], `${path}[${i}]`);
+        if (reason) return reason;
+      }
+      return null;
+    case 'record': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} must be an object`;
+      for (const key in value) {
+        const reason = validate(schema.values, value[key], `${path}.${key}`);
+        if (reason) return reason;
+      }
+      return null;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${path} must be an object`;
+      for (const key in schema.properties) {
+        const reason = validate(schema.properties[key], value[key], `${path}.${key}`);
+        if (reason) return reason;
+      }
+      return null;
+    }
+    case 'optional':
+      if (value === undefined) return null;
+      return validate(schema.schema, value, path);
+    case 'nullable':
+      if (value === null) return null;
+      return validate(schema.schema, value, path);
+  }
+};
+
+/**
+ * Checks a list of action arguments against the schema declared for that action.
+ * @returns null if `args` matches, else a description of the first mismatch found
+ */
+export const validateArgs = (schemas: Schema[], args: unknown): string | null => {
+  if (!Array.isArray(args)) return 'arguments must be an array';
+  if (args.length > schemas.length) return `expected at most ${schemas.length} arguments, got ${args.length}`;
+  for (let i = 0; i < schemas.length; i++) {
+    const reason = validate(schemas[i], args[i], `argument ${i}`);
+    if (reason) return reason;
+  }
+  return null;
+};
+
+/**
+ * @returns the TypeScript type expression matching `schema`
+ */
+export const toTypeScript = (schema: Schema): string => {
+  switch (schema.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return schema.kind;
+    case 'enum':
+      return schema.values.map(value => JSON.stringify(value)).join(' | ');
+    case 'array': {
+      const items = toTypeScript(schema.items);
+      return /^\w+$/.test(items) ? `${items}[]` : `(${items})[]`;
+    }
+    case 'record':
+      return `{ [key: string]: ${toTypeScript(schema.values)} }`;
+    case 'object':
+      if (schema.name) return schema.name;
+      return `{ ${Object.keys(schema.properties).map(key => {
+        const property = schema.properties[key];
+        if (property.kind === 'optional') return `${key}?: ${toTypeScript(property.schema)}`;
+        return `${key}: ${toTypeScript(property)}`;
+      }).join(', ')} }`;
+    case 'optional':
+      return `${toTypeScript(schema.schema)} | undefined`;
+    case 'nullable':
+      return `${toTypeScript(schema.schema)} | null`;
+  }
+};